@@ -14,10 +14,10 @@ import tstl from "typescript-to-lua";
 
 const options = minimist(process.argv.slice(2), { string: "src", default: { src: "src/mod/**/*" } });
 
-function filterSource(glob) {
+function filterSource(glob, required = true) {
     const selected = Array.isArray(options.src) ? options.src : [options.src];
     const filtered = selected.map(s => intersect(s, glob)).filter(g => g);
-    if (filtered.length === 0) {
+    if (required && filtered.length === 0) {
         throw "No source files matched the provided glob filter";
     }
     return filtered;
@@ -60,6 +60,17 @@ export async function typescript() {
     );
 }
 
+export async function blueprints() {
+    // Blueprint fragments are shipped as XML for merging with serz.exe. The
+    // selected sources may not include any.
+    const selected = filterSource("src/mod/**/*.xml", false);
+    if (selected.length > 0) {
+        return awaitStream(src(selected, { base: "src/mod" }).pipe(dest("dist")));
+    }
+}
+
+export const build = gulp.series(typescript, blueprints);
+
 async function transpileTypeScriptToLua(tempDir, luaPath) {
     const tsconfig = path.join(tempDir, "tsconfig.json");
     // We need the root tsconfig.json node to set the value of "include".
@@ -1,5 +1,7 @@
 /** @type {import('ts-jest/dist/types').InitialOptionsTsJest} */
-module.exports = {
+export default {
     preset: "ts-jest",
     testEnvironment: "node",
+    // Engine scripts import the library relative to the source root.
+    moduleDirectories: ["node_modules", "<rootDir>/src"],
 };
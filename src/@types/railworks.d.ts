@@ -105,6 +105,54 @@ declare global {
      */
     var OnControlValueChange: (name: string, index: number, value: number) => void;
 
+    /**
+     * A function that is called when a signal receives a message that has been
+     * sent by another signal or by the game.
+     * @param message The message type.
+     * @param argument The string argument sent with the message.
+     * @param direction The direction the message arrived from, relative to the
+     * link.
+     * @param linkIndex The index of the link that received the message.
+     */
+    var OnSignalMessage: (
+        message: rw.SignalMessage | number,
+        argument: string,
+        direction: rw.SignalDirection,
+        linkIndex: number
+    ) => void;
+
+    /**
+     * A function that is called when a consist passes one of a signal's links.
+     * Distances are positive when the consist end is in front of the link.
+     * @param prevFrontDist The previous distance to the front of the consist.
+     * @param prevBackDist The previous distance to the back of the consist.
+     * @param frontDist The distance to the front of the consist.
+     * @param backDist The distance to the back of the consist.
+     * @param linkIndex The index of the link being passed.
+     */
+    var OnConsistPass: (
+        prevFrontDist: number,
+        prevBackDist: number,
+        frontDist: number,
+        backDist: number,
+        linkIndex: number
+    ) => void;
+
+    /**
+     * A function that is called when a junction on a signal's path changes
+     * state.
+     * @param junctionState Unused by the game; always 0.
+     * @param argument The string argument sent with the change.
+     * @param direction The direction of the junction relative to the link.
+     * @param linkIndex The index of the link that detected the change.
+     */
+    var OnJunctionStateChange: (
+        junctionState: number,
+        argument: string,
+        direction: rw.SignalDirection,
+        linkIndex: number
+    ) => void;
+
     /**
      * This is the event handler function it handles any event calls from the
      * scenario system.
@@ -3,15 +3,31 @@
  * Advanced Civil Speed Enforcement System for the Long Island Rail Road.
  */
 
+import { BrakingPerformance } from "./braking";
 import * as cs from "./cabsignals";
 import * as c from "./constants";
 import * as frp from "./frp";
 import { FrpEngine } from "./frp-engine";
-import { fsm, mapBehavior, rejectUndefined } from "./frp-extra";
-import { PlayerUpdate } from "./frp-vehicle";
+import { finalize, fsm, mapBehavior, rejectUndefined } from "./frp-extra";
+import { ControlSlot, PlayerUpdate, StateCodec } from "./frp-vehicle";
 import * as rw from "./railworks";
+import { Reading, Sensed, bestScoreOfMapEntries, defaultParameters, indexObjectsSensedByDistance } from "./tracker";
 
-export type AcsesState = { brakes: AcsesBrake; alarm: boolean; overspeed: boolean; trackSpeed: AcsesTrack };
+export type AcsesState = {
+    brakes: AcsesBrake;
+    alarm: boolean;
+    overspeed: boolean;
+    trackSpeed: AcsesTrack;
+    /**
+     * The next speed reduction the engineer must brake for, if any.
+     */
+    target: AcsesTarget | undefined;
+    /**
+     * The speed allowed by the braking curve in force, above which the
+     * overspeed alarm sounds.
+     */
+    permittedSpeedMps: number | undefined;
+};
 export enum AcsesBrake {
     None,
     Penalty,
@@ -23,12 +39,14 @@ export enum AcsesSpeed {
     CutOut,
     Degraded,
 }
+export type AcsesTarget = { speedMps: number; distanceM: number };
 
 type AcsesAccum = {
     acknowledged: Set<Hazard>;
     mode: AcsesMode;
     inForce: Hazard;
     trackSpeed: AcsesTrack;
+    target: AcsesTarget | undefined;
 };
 type AcsesMode =
     | AcsesModeType.Normal
@@ -46,49 +64,157 @@ enum AcsesEventType {
     Downgrade,
 }
 
+/**
+ * A temporary speed restriction issued at runtime.
+ */
+export type TemporarySpeedRestriction = {
+    speedMps: number;
+    /**
+     * The distance from the rail vehicle to the start of the restriction, at
+     * the time it is issued.
+     */
+    distanceM: number;
+    lengthM: number;
+};
+
 type TrackSpeedChangeAccum = undefined | [savedSpeedMps: number, upgradeAfterM: number];
 const minTrackSpeedUpgradeDistM = 350 * c.ft.toM; // about 4 car lengths
+const trackSpeedSaveCodec: StateCodec<TrackSpeedChangeAccum> = {
+    encode: accum => (accum === undefined ? [0] : [1, ...accum]),
+    decode: ([isSet, savedSpeedMps, upgradeAfterM]) => (isSet > 0.5 ? [savedSpeedMps, upgradeAfterM] : undefined),
+};
 
+type SpeedPost = { type: rw.SpeedLimitType; speedMps: number };
+type TwoSidedSpeedPost = { before: SpeedPost | undefined; after: SpeedPost | undefined };
+type Signal = { proState: rw.ProSignalState };
 /**
- * Distance traveled since the last search along with a collection of
- * statelessly sensed objects.
+ * A temporary speed restriction relative to the rail vehicle.
  */
-type Reading<T> = [traveledM: number, sensed: Sensed<T>[]];
+type TrackedRestriction = { startM: number; endM: number; speedMps: number };
 /**
- * A distance relative to the rail vehicle along with the object sensed.
+ * The deceleration of a braking curve, and the time before it takes effect.
  */
-type Sensed<T> = [distanceM: number, object: T];
-type SpeedPost = { type: rw.SpeedLimitType; speedMps: number };
-type TwoSidedSpeedPost = { before: SpeedPost | undefined; after: SpeedPost | undefined };
-type Signal = { proState: rw.ProSignalState };
-type HazardsAccum = { advanceLimits: Map<number, AdvanceLimitHazard>; hazards: Hazard[] };
-type ObjectIndexAccum<T> = { counter: number; sensed: Map<number, Sensed<T>>; passing: Map<number, Sensed<T>> };
+type BrakingCurve = { rateMps2: number; delayS: number };
+type RestrictionIndexAccum = { counter: number; restrictions: Map<number, TrackedRestriction> };
+type HazardsAccum = {
+    advanceLimits: Map<number, AdvanceLimitHazard>;
+    restrictions: Map<number, TemporaryRestrictionHazard>;
+    hazards: Hazard[];
+};
 
 const popupS = 5;
-const alertMarginMps = 3 * c.mph.toMps;
-const penaltyMarginMps = 6 * c.mph.toMps;
-const alertCountdownS = 6;
-const penaltyCurveMps2 = -1 * c.mph.toMps;
 const iterateStepM = 0.01;
 const hugeSpeed = 999;
+const restrictionRetainM = 2 * c.mi.toKm * 1000;
+
+/**
+ * The enforcement margins and timings of a railroad's ACSES installation.
+ */
+export type AcsesProfile = {
+    /**
+     * The margin above a speed limit at which the overspeed alarm sounds.
+     */
+    alertMarginMps: number;
+    /**
+     * The margin above a speed limit at which a penalty brake is applied.
+     */
+    penaltyMarginMps: number;
+    /**
+     * The time the engineer has to acknowledge an alert.
+     */
+    alertCountdownS: number;
+    /**
+     * The deceleration of the penalty braking curve on level track.
+     */
+    penaltyCurveMps2: number;
+    /**
+     * The track speed below which ACSES enters degraded mode, in which it does
+     * not enforce positive stops.
+     */
+    degradedSpeedMps: number;
+    /**
+     * The distance in rear of a stop signal at which a positive stop is
+     * enforced.
+     */
+    positiveStopCushionM: number;
+};
+
+/**
+ * Enforcement profile for the Long Island Rail Road. These are the values the
+ * original LIRR ACSES script used.
+ */
+export const lirrProfile: AcsesProfile = {
+    alertMarginMps: 3 * c.mph.toMps,
+    penaltyMarginMps: 6 * c.mph.toMps,
+    alertCountdownS: 6,
+    penaltyCurveMps2: -1 * c.mph.toMps,
+    degradedSpeedMps: 16 * c.mph.toMps,
+    positiveStopCushionM: 40 + c.ft.toM,
+};
+
+/**
+ * Enforcement profile for Metro-North.
+ *
+ * These values are placeholders that have not been checked against any
+ * published source; they only make Metro-North's enforcement slightly stricter
+ * than the LIRR's. Replace them once real figures are available.
+ */
+export const metroNorthProfile: AcsesProfile = {
+    alertMarginMps: 2 * c.mph.toMps,
+    penaltyMarginMps: 4 * c.mph.toMps,
+    alertCountdownS: 6,
+    penaltyCurveMps2: -1.1 * c.mph.toMps,
+    degradedSpeedMps: 15 * c.mph.toMps,
+    positiveStopCushionM: 40 + c.ft.toM,
+};
+
+/**
+ * Attempt to read a temporary speed restriction from a custom signal message
+ * of the form "tsr<speed mph>at<distance ft>for<length ft>".
+ * @param signalMessage The custom signal message.
+ * @returns The restriction, if the message describes one.
+ */
+export function toTemporarySpeedRestriction(signalMessage: string): TemporarySpeedRestriction | undefined {
+    const [, , speedMph, distanceFt, lengthFt] = string.find(signalMessage, "^tsr(%d+)at(%d+)for(%d+)$");
+    if (speedMph === undefined) {
+        return undefined;
+    }
+    return {
+        speedMps: parseInt(speedMph as string) * c.mph.toMps,
+        distanceM: parseInt(distanceFt as string) * c.ft.toM,
+        lengthM: parseInt(lengthFt as string) * c.ft.toM,
+    };
+}
 
 /**
  * Create a new ACSES instance.
  * @param e The player's engine.
+ * @param profile The railroad's enforcement margins and timings.
  * @param acknowledge A behavior that indicates the state of the acknowledge
  * joystick.
  * @param coastOrBrake A behavior that indicates the master controller has been
  * placed into a braking or the coast position.
  * @param cutIn An behavior that indicates the state of the cut in control.
  * @param hasPower A behavior that indicates the unit is powered and keyed in.
+ * @param braking A behavior that indicates the braking performance of the
+ * consist.
+ * @param save Three control values to save the track speed upgrade distance
+ * to, if it should survive a save and resume.
+ * @param restrictions An event stream of temporary speed restrictions from
+ * sources other than custom signal messages, such as scenario events.
  * @returns An event stream that commmunicates all state for this system.
+ * Unsubscribing from it tears down the system.
  */
 export function create(
     e: FrpEngine,
+    profile: AcsesProfile,
     acknowledge: frp.Behavior<boolean>,
     coastOrBrake: frp.Behavior<boolean>,
     cutIn: frp.Behavior<boolean>,
-    hasPower: frp.Behavior<boolean>
+    hasPower: frp.Behavior<boolean>,
+    braking: frp.Behavior<BrakingPerformance>,
+    save: ControlSlot[] = [],
+    restrictions?: frp.Stream<TemporarySpeedRestriction>
 ): frp.Stream<AcsesState> {
     const cutInOut$ = frp.compose(
         e.createPlayerWithKeyUpdateStream(),
@@ -99,7 +225,7 @@ export function create(
         // of the control value settle delay, so ignore that first transition.
         frp.filter(([from, to]) => from !== to && !(from === undefined && !to))
     );
-    cutInOut$(([, to]) => {
+    const disposeCutInOut = cutInOut$(([, to]) => {
         const msg = to ? "Enabled" : "Disabled";
         rw.ScenarioManager.ShowAlertMessageExt("ACSES Track Speed Enforcement", msg, popupS, "");
     });
@@ -113,22 +239,42 @@ export function create(
         frp.map(msg => cs.toPositiveStopDistanceM(msg)),
         rejectUndefined()
     );
-    const pts = frp.stepper(pts$, false);
+    const [pts, disposePts] = frp.disposableStepper(pts$, false);
+
+    const signalRestriction$ = frp.compose(
+        e.createOnSignalMessageStream(),
+        frp.map(msg => toTemporarySpeedRestriction(msg)),
+        rejectUndefined()
+    );
+    const restrictionIndex$ = frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        indexTemporarySpeedRestrictions(
+            e,
+            restrictions !== undefined ? frp.compose(signalRestriction$, frp.merge(restrictions)) : signalRestriction$
+        )
+    );
+    const [restrictionIndex, disposeRestrictionIndex] = frp.disposableStepper(
+        restrictionIndex$,
+        new Map<number, TrackedRestriction>()
+    );
 
     const speedPostIndex$ = frp.compose(
         e.createPlayerWithKeyUpdateStream(),
         mapSpeedPostsStream(e),
-        indexObjectsSensedByDistance(isInactive),
+        indexObjectsSensedByDistance(defaultParameters, isInactive),
         frp.hub()
     );
-    const speedPostIndex = frp.stepper(speedPostIndex$, new Map<number, Sensed<SpeedPost>>());
+    const [speedPostIndex, disposeSpeedPostIndex] = frp.disposableStepper(
+        speedPostIndex$,
+        new Map<number, Sensed<SpeedPost>>()
+    );
 
     const signalIndex$ = frp.compose(
         e.createPlayerWithKeyUpdateStream(),
         mapSignalStream(e),
-        indexObjectsSensedByDistance(isInactive)
+        indexObjectsSensedByDistance(defaultParameters, isInactive)
     );
-    const signalIndex = frp.stepper(signalIndex$, new Map<number, Sensed<Signal>>());
+    const [signalIndex, disposeSignalIndex] = frp.disposableStepper(signalIndex$, new Map<number, Sensed<Signal>>());
 
     const trackSpeedMps$ = frp.compose(
         speedPostIndex$,
@@ -136,15 +282,16 @@ export function create(
             e,
             () => e.rv.GetCurrentSpeedLimit()[0],
             () => e.rv.GetConsistLength(),
-            isInactive
+            isInactive,
+            save
         ),
         frp.hub()
     );
     const isDegraded$ = frp.compose(
         trackSpeedMps$,
-        frp.map(speedMps => speedMps < 16 * c.mph.toMps)
+        frp.map(speedMps => speedMps < profile.degradedSpeedMps)
     );
-    const isDegraded = frp.stepper(isDegraded$, false);
+    const [isDegraded, disposeIsDegraded] = frp.disposableStepper(isDegraded$, false);
 
     const sortedHazards$ = frp.compose(
         trackSpeedMps$,
@@ -154,13 +301,26 @@ export function create(
                 const thePts = frp.snapshot(pts);
 
                 let hazards: Hazard[] = [];
-                const brakingCurveMps2 = penaltyCurveMps2 * brakingCurveGradientFactor(e.rv.GetGradient());
+                const thePerformance = frp.snapshot(braking);
+                const brakingCurve: BrakingCurve = {
+                    rateMps2: profile.penaltyCurveMps2 * thePerformance.rateFactor,
+                    delayS: thePerformance.buildUpS,
+                };
                 // Add advance speed limits.
                 let advanceLimits = new Map<number, AdvanceLimitHazard>();
                 for (const [id, sensed] of frp.snapshot(speedPostIndex)) {
                     const hazard = accum.advanceLimits.get(id) || new AdvanceLimitHazard();
                     advanceLimits.set(id, hazard);
-                    hazard.update(brakingCurveMps2, theSpeedMps, sensed);
+                    hazard.update(profile, brakingCurve, theSpeedMps, sensed);
+                    hazards.push(hazard);
+                }
+                // Add temporary speed restrictions.
+                let restrictions = new Map<number, TemporaryRestrictionHazard>();
+                const consistLengthM = e.rv.GetConsistLength();
+                for (const [id, tracked] of frp.snapshot(restrictionIndex)) {
+                    const hazard = accum.restrictions.get(id) || new TemporaryRestrictionHazard();
+                    restrictions.set(id, hazard);
+                    hazard.update(profile, brakingCurve, theSpeedMps, tracked, consistLengthM);
                     hazards.push(hazard);
                 }
                 // Add stop signals, if we are not in degraded mode and a
@@ -168,11 +328,11 @@ export function create(
                 if (!frp.snapshot(isDegraded) && typeof thePts === "number") {
                     for (const [id, [distanceM, signal]] of frp.snapshot(signalIndex)) {
                         if (signal.proState === rw.ProSignalState.Red) {
-                            const cushionM = 40 + c.ft.toM;
                             const hazard = new StopSignalHazard(
-                                brakingCurveMps2,
+                                profile,
+                                brakingCurve,
                                 theSpeedMps,
-                                thePts + cushionM,
+                                thePts + profile.positiveStopCushionM,
                                 distanceM
                             );
                             hazards.push(hazard);
@@ -180,17 +340,17 @@ export function create(
                     }
                 }
                 // Add current track speed limit.
-                hazards.push(new TrackSpeedHazard(trackSpeedMps));
+                hazards.push(new TrackSpeedHazard(profile, trackSpeedMps));
                 // Sort by penalty curve speed.
                 hazards.sort((a, b) => a.penaltyCurveMps - b.penaltyCurveMps);
-                return { advanceLimits, hazards };
+                return { advanceLimits, restrictions, hazards };
             },
-            { advanceLimits: new Map(), hazards: [] }
+            { advanceLimits: new Map(), restrictions: new Map(), hazards: [] }
         ),
         frp.map(accum => accum.hazards),
         frp.hub()
     );
-    const sortedHazards = frp.stepper(sortedHazards$, []);
+    const [sortedHazards, disposeSortedHazards] = frp.disposableStepper(sortedHazards$, []);
 
     const trackSpeedDowngrade$ = frp.compose(
         sortedHazards$,
@@ -208,8 +368,9 @@ export function create(
     const accumStart: AcsesAccum = {
         acknowledged: new Set<Hazard>(),
         mode: AcsesModeType.Normal,
-        inForce: new TrackSpeedHazard(hugeSpeed),
+        inForce: new TrackSpeedHazard(profile, hugeSpeed),
         trackSpeed: AcsesSpeed.CutOut,
+        target: undefined,
     };
     return frp.compose(
         e.createPlayerWithKeyUpdateStream(),
@@ -242,6 +403,18 @@ export function create(
             );
             const aSpeedMps = Math.abs(frp.snapshot(speedMps));
 
+            // The most restrictive braking curve that leads to a lower speed.
+            let target: AcsesTarget | undefined = undefined;
+            for (const hazard of hazards) {
+                if (
+                    hazard.target !== undefined &&
+                    hazard.target.speedMps < (lowestTrackSpeed.trackSpeedMps as number)
+                ) {
+                    target = hazard.target;
+                    break;
+                }
+            }
+
             let mode: AcsesMode;
             while (true) {
                 // Normal state
@@ -265,7 +438,7 @@ export function create(
                     const [, stopwatchS, aAck] = accum.mode;
                     if (aSpeedMps < inForce.alertCurveMps && aAck) {
                         mode = AcsesModeType.Normal;
-                    } else if (stopwatchS > alertCountdownS) {
+                    } else if (stopwatchS > profile.alertCountdownS) {
                         mode = [AcsesModeType.Penalty, aAck];
                     } else if (event === AcsesEventType.Downgrade) {
                         mode = accum.mode;
@@ -279,7 +452,11 @@ export function create(
                 // Penalty state
                 {
                     const [, aAck] = accum.mode;
-                    if (aSpeedMps < inForce.alertCurveMps - alertMarginMps && aAck && frp.snapshot(coastOrBrake)) {
+                    if (
+                        aSpeedMps < inForce.alertCurveMps - profile.alertMarginMps &&
+                        aAck &&
+                        frp.snapshot(coastOrBrake)
+                    ) {
                         mode = AcsesModeType.Normal;
                     } else {
                         mode = [AcsesModeType.Penalty, aAck || theAck];
@@ -295,6 +472,7 @@ export function create(
                 trackSpeed: frp.snapshot(isDegraded)
                     ? AcsesSpeed.Degraded
                     : [AcsesSpeed.Enforcing, lowestTrackSpeed.trackSpeedMps as number],
+                target,
             };
         }, accumStart),
         frp.map(accum => {
@@ -323,8 +501,19 @@ export function create(
                 alarm,
                 overspeed: aSpeedMps > accum.inForce.alertCurveMps && accum.inForce.alertCurveMps > 1,
                 trackSpeed: accum.trackSpeed,
+                target: accum.target,
+                permittedSpeedMps: accum.trackSpeed !== AcsesSpeed.CutOut ? accum.inForce.alertCurveMps : undefined,
             };
-        })
+        }),
+        finalize(
+            disposeCutInOut,
+            disposePts,
+            disposeRestrictionIndex,
+            disposeSpeedPostIndex,
+            disposeSignalIndex,
+            disposeIsDegraded,
+            disposeSortedHazards
+        )
     );
 }
 
@@ -452,16 +641,21 @@ function iterateRestrictiveSignals(
  * @param consistLengthM A behavior to obtain the length of the player's
  * consist.
  * @param reset A behavior that can be used to reset this tracker.
+ * @param save The control values to save the upgrade distance to.
  * @returns The new event stream of track speed in m/s.
  */
 function createTrackSpeedStream(
     e: FrpEngine,
     gameTrackSpeedLimitMps: frp.Behavior<number>,
     consistLengthM: frp.Behavior<number>,
-    reset: frp.Behavior<boolean>
+    reset: frp.Behavior<boolean>,
+    save: ControlSlot[]
 ): (eventStream: frp.Stream<Map<number, Sensed<SpeedPost>>>) => frp.Stream<number> {
     return indexStream => {
-        const twoSidedPosts = frp.stepper(trackSpeedPostSpeeds(indexStream), new Map<number, TwoSidedSpeedPost>());
+        const [twoSidedPosts, disposeTwoSidedPosts] = frp.disposableStepper(
+            trackSpeedPostSpeeds(indexStream),
+            new Map<number, TwoSidedSpeedPost>()
+        );
         return frp.compose(
             indexStream,
             frp.fold<number, Map<number, Sensed<SpeedPost>>>(
@@ -515,40 +709,46 @@ function createTrackSpeedStream(
             // crossovers, impose a distance-based delay before upgrading the
             // track speed.
             frp.merge(e.createPlayerWithKeyUpdateStream()),
-            frp.fold<TrackSpeedChangeAccum, number | PlayerUpdate>((accum, input) => {
-                if (frp.snapshot(reset)) {
-                    return undefined;
-                }
+            e.foldWithSave<TrackSpeedChangeAccum, number | PlayerUpdate>(
+                (accum, input) => {
+                    if (frp.snapshot(reset)) {
+                        return undefined;
+                    }
 
-                // New speed
-                if (typeof input === "number") {
-                    const speedMps = input;
-                    if (accum === undefined) {
-                        return [speedMps, 0];
+                    // New speed
+                    if (typeof input === "number") {
+                        const speedMps = input;
+                        if (accum === undefined) {
+                            return [speedMps, 0];
+                        }
+
+                        const [savedSpeedMps, upgradeAfterM] = accum;
+                        if (speedMps < savedSpeedMps || (speedMps > savedSpeedMps && upgradeAfterM <= 0)) {
+                            return [speedMps, minTrackSpeedUpgradeDistM];
+                        } else {
+                            return [savedSpeedMps, upgradeAfterM];
+                        }
                     }
 
-                    const [savedSpeedMps, upgradeAfterM] = accum;
-                    if (speedMps < savedSpeedMps || (speedMps > savedSpeedMps && upgradeAfterM <= 0)) {
-                        return [speedMps, minTrackSpeedUpgradeDistM];
+                    // Clock update
+                    if (accum === undefined) {
+                        return [frp.snapshot(gameTrackSpeedLimitMps), 0];
                     } else {
-                        return [savedSpeedMps, upgradeAfterM];
+                        const pu = input;
+                        const traveledM = pu.dt * Math.abs(e.rv.GetSpeed());
+                        const [savedSpeedMps, upgradeAfterM] = accum;
+                        return [savedSpeedMps, Math.max(upgradeAfterM - traveledM, 0)];
                     }
-                }
-
-                // Clock update
-                if (accum === undefined) {
-                    return [frp.snapshot(gameTrackSpeedLimitMps), 0];
-                } else {
-                    const pu = input;
-                    const traveledM = pu.dt * Math.abs(e.rv.GetSpeed());
-                    const [savedSpeedMps, upgradeAfterM] = accum;
-                    return [savedSpeedMps, Math.max(upgradeAfterM - traveledM, 0)];
-                }
-            }, undefined),
+                },
+                undefined,
+                trackSpeedSaveCodec,
+                save
+            ),
             frp.map(accum => {
                 const [savedSpeedMps] = accum ?? [0];
                 return savedSpeedMps;
-            })
+            }),
+            finalize(disposeTwoSidedPosts)
         );
     };
 }
@@ -582,135 +782,56 @@ const trackSpeedPostSpeeds = frp.fold<Map<number, TwoSidedSpeedPost>, Map<number
 );
 
 /**
- * Tags objects that can only be sensed by distance statelessly with
- * persistent ID's.
- *
- * Track objects will briefly disappear before they reappear in the reverse
- * direction - the exact distance is possibly the locomotive length? We call
- * this area the "passing" zone.
- *
- * d < 0|invisible|d > 0
- * ---->|_________|<----
- *
- * @param reset A behavior that can be used to reset this tracker.
- * @returns An stream of mappings from unique identifier to sensed object.
+ * Tracks the locations of temporary speed restrictions relative to the rail
+ * vehicle by dead reckoning, and forgets them once they are far behind.
+ * @param e The rail vehicle.
+ * @param restrictions An event stream of newly issued restrictions.
+ * @returns A stream of mappings from unique identifier to restriction.
  */
-function indexObjectsSensedByDistance<T>(
-    reset: frp.Behavior<boolean>
-): (eventStream: frp.Stream<Reading<T>>) => frp.Stream<Map<number, Sensed<T>>> {
-    const maxPassingM = 28.5; // 1.1*85 ft
-    const senseMarginM = 4;
+function indexTemporarySpeedRestrictions(
+    e: FrpEngine,
+    restrictions: frp.Stream<TemporarySpeedRestriction>
+): (eventStream: frp.Stream<PlayerUpdate>) => frp.Stream<Map<number, TrackedRestriction>> {
     return eventStream => {
-        const accumStart: ObjectIndexAccum<T> = {
-            counter: -1,
-            sensed: new Map(),
-            passing: new Map(),
-        };
         return frp.compose(
             eventStream,
-            frp.fold<ObjectIndexAccum<T>, Reading<T>>((accum, reading) => {
-                if (frp.snapshot(reset)) {
-                    return accumStart;
-                }
-
-                const [traveledM, objects] = reading;
-                let counter = accum.counter;
-                let sensed = new Map<number, Sensed<T>>();
-                let passing = new Map<number, Sensed<T>>();
-                for (const [distanceM, obj] of objects) {
-                    // There's no continue in Lua 5.0, but we do have break...
-                    while (true) {
-                        // First, try to match a sensed object with a previously sensed
-                        // object.
-                        const bestSensed = bestScoreOfMapEntries(accum.sensed, (id, [sensedDistanceM]) => {
-                            if (sensed.has(id)) {
-                                return undefined;
-                            } else {
-                                const inferredM = sensedDistanceM - traveledM;
-                                const differenceM = Math.abs(inferredM - distanceM);
-                                return differenceM > senseMarginM ? undefined : -differenceM;
+            frp.merge(restrictions),
+            frp.fold<RestrictionIndexAccum, PlayerUpdate | TemporarySpeedRestriction>(
+                (accum, input) => {
+                    let restrictions = new Map<number, TrackedRestriction>();
+                    if ("dt" in input) {
+                        const traveledM = e.rv.GetSpeed() * input.dt; // Must be as precise as possible.
+                        for (const [id, tracked] of accum.restrictions) {
+                            const endM = tracked.endM - traveledM;
+                            if (endM > -restrictionRetainM) {
+                                restrictions.set(id, {
+                                    startM: tracked.startM - traveledM,
+                                    endM,
+                                    speedMps: tracked.speedMps,
+                                });
                             }
-                        });
-                        if (bestSensed !== undefined) {
-                            sensed.set(bestSensed, [distanceM, obj]);
-                            break;
-                        }
-
-                        // Next, try to match with a passing object.
-                        let bestPassing: number | undefined;
-                        if (distanceM <= 0 && distanceM > -senseMarginM) {
-                            bestPassing = bestScoreOfMapEntries(accum.passing, (id, [passingDistanceM]) => {
-                                const inferredM = passingDistanceM - traveledM;
-                                return sensed.has(id) ? undefined : -inferredM;
-                            });
-                        } else if (distanceM >= 0 && distanceM < senseMarginM) {
-                            bestPassing = bestScoreOfMapEntries(accum.passing, (id, [passingDistanceM]) => {
-                                const inferredM = passingDistanceM - traveledM;
-                                return sensed.has(id) ? undefined : inferredM;
-                            });
-                        }
-                        if (bestPassing !== undefined) {
-                            sensed.set(bestPassing, [distanceM, obj]);
-                            break;
-                        }
-
-                        // If neither strategy matched, then this is a new object.
-                        sensed.set(++counter, [distanceM, obj]);
-                        break;
-                    }
-                }
-
-                // Cull objects in the passing zone that have exceeded the
-                // maximum passing distance.
-                for (const [id, [distanceM, obj]] of accum.passing) {
-                    if (!sensed.has(id)) {
-                        const inferredM = distanceM - traveledM;
-                        if (Math.abs(inferredM) <= maxPassingM) {
-                            passing.set(id, [inferredM, obj]);
-                            sensed.set(id, [inferredM, obj]);
                         }
-                    }
-                }
-
-                // Add back objects that haven't been matched to anything
-                // else and are in the passing zone.
-                for (const [id, [distanceM, obj]] of accum.sensed) {
-                    if (!sensed.has(id) && !passing.has(id)) {
-                        const inferredM = distanceM - traveledM;
-                        if (Math.abs(inferredM) <= maxPassingM) {
-                            passing.set(id, [inferredM, obj]);
-                            sensed.set(id, [inferredM, obj]);
+                        return { counter: accum.counter, restrictions };
+                    } else {
+                        for (const [id, tracked] of accum.restrictions) {
+                            restrictions.set(id, tracked);
                         }
+                        const counter = accum.counter + 1;
+                        restrictions.set(counter, {
+                            startM: input.distanceM,
+                            endM: input.distanceM + input.lengthM,
+                            speedMps: input.speedMps,
+                        });
+                        return { counter, restrictions };
                     }
-                }
-
-                return { counter: counter, sensed: sensed, passing: passing };
-            }, accumStart),
-            frp.map(accum => accum.sensed)
+                },
+                { counter: -1, restrictions: new Map() }
+            ),
+            frp.map(accum => accum.restrictions)
         );
     };
 }
 
-/**
- * Score the entries of a map and return the best-scoring one.
- * @param map The map to search.
- * @param score A function that scores an entry in a map. It may also return
- * undefined, in which case this entry will be excluded.
- * @returns The highest-scoring key, if any.
- */
-function bestScoreOfMapEntries<K, V>(map: Map<K, V>, score: (key: K, value: V) => number | undefined): K | undefined {
-    let best: K | undefined = undefined;
-    let bestScore: number | undefined = undefined;
-    for (const [k, v] of map) {
-        const s = score(k, v);
-        if (s !== undefined && (bestScore === undefined || s > bestScore)) {
-            best = k;
-            bestScore = s;
-        }
-    }
-    return best;
-}
-
 /**
  * Describes any piece of the ACSES braking curve.
  */
@@ -727,6 +848,11 @@ interface Hazard {
      * The track speed to display when this hazard is in force, if any.
      */
     trackSpeedMps?: number;
+    /**
+     * The speed and distance this hazard's braking curve is aiming for, if
+     * any.
+     */
+    target?: AcsesTarget;
 }
 
 /**
@@ -737,9 +863,9 @@ class TrackSpeedHazard implements Hazard {
     penaltyCurveMps: number;
     trackSpeedMps: number;
 
-    constructor(speedMps: number) {
-        this.alertCurveMps = speedMps + alertMarginMps;
-        this.penaltyCurveMps = speedMps + penaltyMarginMps;
+    constructor(profile: AcsesProfile, speedMps: number) {
+        this.alertCurveMps = speedMps + profile.alertMarginMps;
+        this.penaltyCurveMps = speedMps + profile.penaltyMarginMps;
         this.trackSpeedMps = speedMps;
     }
 }
@@ -752,10 +878,11 @@ class AdvanceLimitHazard implements Hazard {
     alertCurveMps: number = hugeSpeed;
     penaltyCurveMps: number = hugeSpeed;
     trackSpeedMps?: number = undefined;
+    target?: AcsesTarget = undefined;
 
     private violatedAtM: number | undefined = undefined;
 
-    update(curveMps2: number, playerSpeedMps: number, sensed: Sensed<SpeedPost>) {
+    update(profile: AcsesProfile, curve: BrakingCurve, playerSpeedMps: number, sensed: Sensed<SpeedPost>) {
         const [distanceM, post] = sensed;
         const aDistanceM = Math.abs(distanceM);
 
@@ -776,20 +903,58 @@ class AdvanceLimitHazard implements Hazard {
         const rightWay = (distanceM > 0 && playerSpeedMps >= 0) || (distanceM < 0 && playerSpeedMps <= 0);
         this.alertCurveMps = rightWay
             ? Math.max(
-                  getBrakingCurve(curveMps2, post.speedMps, aDistanceM, alertCountdownS),
-                  post.speedMps + alertMarginMps
+                  getBrakingCurve(curve, post.speedMps, aDistanceM, profile.alertCountdownS),
+                  post.speedMps + profile.alertMarginMps
               )
             : hugeSpeed;
         this.penaltyCurveMps = rightWay
-            ? Math.max(getBrakingCurve(curveMps2, post.speedMps, aDistanceM, 0), post.speedMps + penaltyMarginMps)
+            ? Math.max(getBrakingCurve(curve, post.speedMps, aDistanceM, 0), post.speedMps + profile.penaltyMarginMps)
             : hugeSpeed;
         this.trackSpeedMps = revealTrackSpeed ? post.speedMps : undefined;
+        this.target = rightWay ? { speedMps: post.speedMps, distanceM: aDistanceM } : undefined;
         if (this.violatedAtM === undefined && Math.abs(playerSpeedMps) > this.alertCurveMps) {
             this.violatedAtM = distanceM;
         }
     }
 }
 
+/**
+ * A temporary speed restriction is enforced like an advance speed limit on the
+ * approach, and like the track speed limit until the rear of the train clears
+ * it.
+ */
+class TemporaryRestrictionHazard implements Hazard {
+    alertCurveMps: number = hugeSpeed;
+    penaltyCurveMps: number = hugeSpeed;
+    trackSpeedMps?: number = undefined;
+    target?: AcsesTarget = undefined;
+
+    private approach = new AdvanceLimitHazard();
+
+    update(
+        profile: AcsesProfile,
+        curve: BrakingCurve,
+        playerSpeedMps: number,
+        tracked: TrackedRestriction,
+        consistLengthM: number
+    ) {
+        if (tracked.startM <= 0 && tracked.endM >= -consistLengthM) {
+            this.alertCurveMps = tracked.speedMps + profile.alertMarginMps;
+            this.penaltyCurveMps = tracked.speedMps + profile.penaltyMarginMps;
+            this.trackSpeedMps = tracked.speedMps;
+            this.target = undefined;
+        } else {
+            const distanceM = tracked.startM > 0 ? tracked.startM : tracked.endM;
+            const post = { type: rw.SpeedLimitType.SignedTrack, speedMps: tracked.speedMps };
+            this.approach.update(profile, curve, playerSpeedMps, [distanceM, post]);
+            this.alertCurveMps = this.approach.alertCurveMps;
+            this.penaltyCurveMps = this.approach.penaltyCurveMps;
+            this.trackSpeedMps = this.approach.trackSpeedMps;
+            this.target = this.approach.target;
+        }
+    }
+}
+
 /**
  * A stateless hazard that represents a signal at Danger.
  */
@@ -797,42 +962,39 @@ class StopSignalHazard implements Hazard {
     alertCurveMps: number;
     penaltyCurveMps: number;
     trackSpeedMps = undefined;
-
-    constructor(curveMps2: number, playerSpeedMps: number, targetM: number, distanceM: number) {
+    target?: AcsesTarget;
+
+    constructor(
+        profile: AcsesProfile,
+        curve: BrakingCurve,
+        playerSpeedMps: number,
+        targetM: number,
+        distanceM: number
+    ) {
         const rightWay = (distanceM > 0 && playerSpeedMps >= 0) || (distanceM < 0 && playerSpeedMps <= 0);
         if (rightWay) {
             const curveDistanceM = Math.max(Math.abs(distanceM) - targetM, 0);
-            this.alertCurveMps = getBrakingCurve(curveMps2, 0, curveDistanceM, alertCountdownS);
-            this.penaltyCurveMps = getBrakingCurve(curveMps2, 0, curveDistanceM, 0);
+            this.alertCurveMps = getBrakingCurve(curve, 0, curveDistanceM, profile.alertCountdownS);
+            this.penaltyCurveMps = getBrakingCurve(curve, 0, curveDistanceM, 0);
+            this.target = { speedMps: 0, distanceM: curveDistanceM };
         } else {
             this.alertCurveMps = hugeSpeed;
             this.penaltyCurveMps = hugeSpeed;
+            this.target = undefined;
         }
     }
 }
 
-function getBrakingCurve(a: number, vf: number, d: number, t: number) {
-    return Math.max(Math.pow(Math.pow(a * t, 2) - 2 * a * d + Math.pow(vf, 2), 0.5) + a * t, vf);
-}
-
-function brakingCurveGradientFactor(gradientPct: number): number {
-    if (gradientPct > 0) {
-        return 1 + (1 - brakingCurveGradientFactor(-gradientPct));
-    } else if (gradientPct < -2.96) {
-        return 1 - 0.7;
-    } else if (gradientPct < -2.64) {
-        return 1 - 0.6;
-    } else if (gradientPct < -2.26) {
-        return 1 - 0.5;
-    } else if (gradientPct < -1.83) {
-        return 1 - 0.4;
-    } else if (gradientPct < -1.32) {
-        return 1 - 0.3;
-    } else if (gradientPct < -0.72) {
-        return 1 - 0.2;
-    } else if (gradientPct < -0.3) {
-        return 1 - 0.1;
-    } else {
-        return 1;
-    }
+/**
+ * Compute the speed allowed by a braking curve.
+ * @param curve The deceleration and build-up time of the brakes.
+ * @param vf The target speed.
+ * @param d The distance to the target.
+ * @param t The reaction time allowed before braking begins.
+ * @returns The allowed speed.
+ */
+function getBrakingCurve(curve: BrakingCurve, vf: number, d: number, t: number) {
+    const a = curve.rateMps2;
+    const delayS = t + curve.delayS;
+    return Math.max(Math.pow(Math.pow(a * delayS, 2) - 2 * a * d + Math.pow(vf, 2), 0.5) + a * delayS, vf);
 }
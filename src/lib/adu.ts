@@ -0,0 +1,240 @@
+/** @noSelfInFile */
+/**
+ * Aspect Display Unit cab signal enforcement for Amtrak and NJ Transit.
+ *
+ * A downgrade or an overspeed sounds the alarm, which the engineer must
+ * acknowledge. If the train is overspeed, the engineer must also make a
+ * suppression brake application before the countdown runs out, and hold it
+ * until the train is back under the limit. Otherwise, the ADU applies a
+ * penalty brake that holds until the train has stopped.
+ */
+
+import * as cs from "./cabsignals";
+import * as c from "./constants";
+import * as frp from "./frp";
+import { FrpEngine } from "./frp-engine";
+import { finalize, fsm, mapBehavior } from "./frp-extra";
+import { ControlSlot, StateCodec } from "./frp-vehicle";
+import * as rw from "./railworks";
+
+export type AduState = {
+    penaltyBrake: boolean;
+    alarm: boolean;
+    overspeed: boolean;
+    suppression: boolean;
+};
+
+type AduAccum =
+    | AduMode.Normal
+    | [mode: AduMode.Alert, stopwatchS: number, acknowledged: boolean]
+    | AduMode.Suppression
+    | AduMode.Penalty;
+enum AduMode {
+    Normal,
+    Alert,
+    Suppression,
+    Penalty,
+}
+
+type AduEvent = [type: AduEventType.Update, deltaS: number] | AduEventType.Downgrade | AduEventType.Overspeed;
+enum AduEventType {
+    Update,
+    Downgrade,
+    Overspeed,
+}
+
+const saveCodec: StateCodec<AduAccum> = {
+    encode: accum => {
+        if (typeof accum === "number") {
+            return [accum, 0, 0];
+        }
+        const [mode, stopwatchS, ack] = accum;
+        return [mode, stopwatchS, ack ? 1 : 0];
+    },
+    decode: ([mode, stopwatchS, ack]) => {
+        switch (Math.round(mode)) {
+            case AduMode.Alert:
+                return [AduMode.Alert, stopwatchS, ack > 0.5];
+            case AduMode.Suppression:
+                return AduMode.Suppression;
+            case AduMode.Penalty:
+                return AduMode.Penalty;
+            default:
+                return AduMode.Normal;
+        }
+    },
+};
+
+const popupS = 5;
+/**
+ * The time the engineer has to acknowledge the alarm and, if overspeed, to
+ * make a suppression application.
+ */
+export const countdownS = 6;
+const overspeedMarginMps = 3 * c.mph.toMps;
+
+/**
+ * Create a new ADU instance.
+ * @param e The player's engine.
+ * @param cabAspect A stream that indicates the current cab signal aspect.
+ * @param acknowledge A behavior that indicates the state of the acknowledge
+ * button.
+ * @param suppression A behavior that indicates the brakes have been applied to
+ * the suppression position or beyond.
+ * @param cutIn An behavior that indicates the state of the cut in control.
+ * @param hasPower A behavior that indicates the unit is powered and keyed in.
+ * @param save Three control values to save the countdown to, if it should
+ * survive a save and resume.
+ * @returns An event stream that commmunicates all state for this system.
+ * Unsubscribing from it tears down the system.
+ */
+export function create(
+    e: FrpEngine,
+    cabAspect: frp.Stream<cs.AmtrakAspect>,
+    acknowledge: frp.Behavior<boolean>,
+    suppression: frp.Behavior<boolean>,
+    cutIn: frp.Behavior<boolean>,
+    hasPower: frp.Behavior<boolean>,
+    save: ControlSlot[] = []
+): frp.Stream<AduState> {
+    const cutInOut$ = frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.filter(_ => frp.snapshot(e.areControlsSettled)),
+        mapBehavior(cutIn),
+        fsm<undefined | boolean>(undefined),
+        // Cut in streams tend to start in false and then go to true, regardless
+        // of the control value settle delay, so ignore that first transition.
+        frp.filter(([from, to]) => from !== to && !(from === undefined && !to))
+    );
+    const disposeCutInOut = cutInOut$(([, to]) => {
+        const msg = to ? "Enabled" : "Disabled";
+        rw.ScenarioManager.ShowAlertMessageExt("ADU Signal Speed Enforcement", msg, popupS, "");
+    });
+
+    const isActive = frp.liftN((cutIn, hasPower) => cutIn && hasPower, cutIn, hasPower);
+    const aSpeedMps = () => Math.abs(e.rv.GetControlValue("SpeedometerMPH", 0) as number) * c.mph.toMps;
+    const [theCabAspect, disposeCabAspect] = frp.disposableStepper(cabAspect, undefined);
+
+    const isOverspeed = frp.liftN(
+        (isActive, speedMps, cabAspect) =>
+            isActive && cabAspect !== undefined && speedMps > toSpeedLimitMps(cabAspect) + overspeedMarginMps,
+        isActive,
+        aSpeedMps,
+        theCabAspect
+    );
+    const isUnderspeed = frp.liftN(
+        (speedMps, cabAspect) => cabAspect === undefined || speedMps <= toSpeedLimitMps(cabAspect),
+        aSpeedMps,
+        theCabAspect
+    );
+    const overspeed$ = frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        mapBehavior(isOverspeed),
+        fsm(false),
+        frp.filter(([from, to]) => !from && to),
+        frp.map((_): AduEvent => AduEventType.Overspeed)
+    );
+
+    const downgrade$ = frp.compose(
+        cabAspect,
+        fsm(cs.AmtrakAspect.Restricting),
+        frp.filter(([from, to]) => (to as number) < (from as number)),
+        frp.filter(_ => frp.snapshot(isActive)),
+        frp.map((_): AduEvent => AduEventType.Downgrade)
+    );
+
+    return frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.map((pu): AduEvent => [AduEventType.Update, pu.dt]),
+        frp.merge(overspeed$),
+        frp.merge(downgrade$),
+        e.foldWithSave<AduAccum, AduEvent>(
+            (accum, event) => {
+                if (!frp.snapshot(isActive)) {
+                    return AduMode.Normal;
+                }
+
+                if (accum === AduMode.Penalty) {
+                    // Penalty braking; stay until the train has stopped.
+                    const stopped = frp.snapshot(aSpeedMps) < c.stopSpeed;
+                    return frp.snapshot(acknowledge) && stopped ? AduMode.Normal : AduMode.Penalty;
+                }
+
+                if (event === AduEventType.Downgrade) {
+                    // Restart the countdown, even if suppressing.
+                    return [AduMode.Alert, 0, false];
+                } else if (event === AduEventType.Overspeed) {
+                    // Sound the alarm, unless the engineer is already
+                    // responding to it.
+                    return accum === AduMode.Normal ? [AduMode.Alert, 0, false] : accum;
+                }
+
+                if (accum === AduMode.Normal) {
+                    // Just a clock update; do nothing.
+                    return accum;
+                }
+
+                if (accum === AduMode.Suppression) {
+                    // The suppression application must be held until the train
+                    // is under the limit.
+                    if (frp.snapshot(isUnderspeed)) {
+                        return AduMode.Normal;
+                    } else {
+                        return frp.snapshot(suppression) ? AduMode.Suppression : AduMode.Penalty;
+                    }
+                }
+
+                // Alert state
+                const [, stopwatchS, ack] = accum;
+                const acked = ack || frp.snapshot(acknowledge);
+                if (acked && frp.snapshot(isUnderspeed)) {
+                    return AduMode.Normal;
+                } else if (acked && frp.snapshot(suppression)) {
+                    return AduMode.Suppression;
+                } else if (stopwatchS > countdownS) {
+                    return AduMode.Penalty;
+                }
+                const [, dt] = event;
+                return [AduMode.Alert, stopwatchS + dt, acked];
+            },
+            AduMode.Normal,
+            saveCodec,
+            save
+        ),
+        frp.map((accum): AduState => {
+            const overspeed = !frp.snapshot(isUnderspeed);
+            if (accum === AduMode.Normal) {
+                return { penaltyBrake: false, alarm: false, overspeed: false, suppression: false };
+            } else if (accum === AduMode.Suppression) {
+                return { penaltyBrake: false, alarm: false, overspeed, suppression: true };
+            } else if (accum === AduMode.Penalty) {
+                return { penaltyBrake: true, alarm: true, overspeed, suppression: false };
+            } else {
+                const [, , ack] = accum;
+                return { penaltyBrake: false, alarm: !ack, overspeed, suppression: false };
+            }
+        }),
+        finalize(disposeCutInOut, disposeCabAspect)
+    );
+}
+
+/**
+ * Get the signal speed limit for a cab signal aspect.
+ * @param aspect The cab signal aspect.
+ * @returns The speed limit.
+ */
+export function toSpeedLimitMps(aspect: cs.AmtrakAspect) {
+    return (
+        {
+            [cs.AmtrakAspect.Restricting]: 20,
+            [cs.AmtrakAspect.Approach]: 30,
+            [cs.AmtrakAspect.ApproachMedium30]: 30,
+            [cs.AmtrakAspect.ApproachMedium45]: 45,
+            [cs.AmtrakAspect.CabSpeed60]: 60,
+            [cs.AmtrakAspect.CabSpeed80]: 80,
+            [cs.AmtrakAspect.Clear100]: 100,
+            [cs.AmtrakAspect.Clear125]: 125,
+            [cs.AmtrakAspect.Clear150]: 150,
+        }[aspect] * c.mph.toMps
+    );
+}
@@ -5,8 +5,8 @@
 
 import * as frp from "./frp";
 import { FrpEngine } from "./frp-engine";
-import { fsm, mapBehavior } from "./frp-extra";
-import { VehicleCamera } from "./frp-vehicle";
+import { finalize, fsm, mapBehavior } from "./frp-extra";
+import { ControlSlot, StateCodec, VehicleCamera } from "./frp-vehicle";
 import * as rw from "./railworks";
 
 export type AlerterState = { brakes: AlerterBrake; alarm: boolean };
@@ -41,6 +41,20 @@ enum AlerterEventType {
     Update,
 }
 
+const saveCodec: StateCodec<AlerterAccum> = {
+    encode: accum => (accum === AlerterMode.Penalty ? [AlerterMode.Penalty, 0] : [...accum]),
+    decode: ([mode, timerS]) => {
+        switch (Math.round(mode)) {
+            case AlerterMode.Alarm:
+                return [AlerterMode.Alarm, timerS];
+            case AlerterMode.Penalty:
+                return AlerterMode.Penalty;
+            default:
+                return [AlerterMode.Countdown, timerS];
+        }
+    },
+};
+
 const popupS = 5;
 const countdownS = 25;
 const alarmS = 15;
@@ -52,13 +66,17 @@ const alarmS = 15;
  * alerter.
  * @param cutIn An behavior that indicates the state of the cut in control.
  * @param hasPower A behavior that indicates the unit is powered and keyed in.
+ * @param save Two control values to save the countdown to, if it should
+ * survive a save and resume.
  * @returns An event stream that commmunicates all state for this system.
+ * Unsubscribing from it tears down the system.
  */
 export function create(
     e: FrpEngine,
     input: frp.Stream<AlerterInput>,
     cutIn: frp.Behavior<boolean>,
-    hasPower: frp.Behavior<boolean>
+    hasPower: frp.Behavior<boolean>,
+    save: ControlSlot[] = []
 ): frp.Stream<AlerterState> {
     const cutInOut$ = frp.compose(
         e.createPlayerWithKeyUpdateStream(),
@@ -69,12 +87,12 @@ export function create(
         // of the control value settle delay, so ignore that first transition.
         frp.filter(([from, to]) => from !== to && !(from === undefined && !to))
     );
-    cutInOut$(([, to]) => {
+    const disposeCutInOut = cutInOut$(([, to]) => {
         const msg = to ? "Enabled" : "Disabled";
         rw.ScenarioManager.ShowAlertMessageExt("ALE Vigilance System", msg, popupS, "");
     });
 
-    const camera = frp.stepper(e.createOnCameraStream(), VehicleCamera.FrontCab);
+    const [camera, disposeCamera] = frp.disposableStepper(e.createOnCameraStream(), VehicleCamera.FrontCab);
     const isExteriorCamera = () => {
         switch (frp.snapshot(camera)) {
             case VehicleCamera.FrontCab:
@@ -90,35 +108,41 @@ export function create(
         e.createPlayerWithKeyUpdateStream(),
         frp.map((pu): AlerterEvent => [AlerterEventType.Update, pu.dt]),
         frp.merge(input),
-        frp.fold<AlerterAccum, AlerterEvent>((accum, event) => {
-            if (!(frp.snapshot(cutIn) && frp.snapshot(hasPower))) {
-                return accumStart;
-            }
+        e.foldWithSave<AlerterAccum, AlerterEvent>(
+            (accum, event) => {
+                if (!(frp.snapshot(cutIn) && frp.snapshot(hasPower))) {
+                    return accumStart;
+                }
 
-            if (accum === AlerterMode.Penalty) {
-                return event === AlerterInput.ActivityThatCancelsPenalty ? accumStart : AlerterMode.Penalty;
-            } else if (
-                event === AlerterInput.Activity ||
-                event === AlerterInput.ActivityThatCancelsPenalty ||
-                frp.snapshot(isExteriorCamera)
-            ) {
-                return accumStart;
-            } else {
-                const [, accumS] = accum;
-                const [, dt] = event;
-                const leftS = accumS - dt;
-                if (accum[0] === AlerterMode.Countdown) {
-                    return leftS <= 0 ? [AlerterMode.Alarm, alarmS] : [AlerterMode.Countdown, leftS];
+                if (accum === AlerterMode.Penalty) {
+                    return event === AlerterInput.ActivityThatCancelsPenalty ? accumStart : AlerterMode.Penalty;
+                } else if (
+                    event === AlerterInput.Activity ||
+                    event === AlerterInput.ActivityThatCancelsPenalty ||
+                    frp.snapshot(isExteriorCamera)
+                ) {
+                    return accumStart;
                 } else {
-                    return leftS <= 0 ? AlerterMode.Penalty : [AlerterMode.Alarm, leftS];
+                    const [, accumS] = accum;
+                    const [, dt] = event;
+                    const leftS = accumS - dt;
+                    if (accum[0] === AlerterMode.Countdown) {
+                        return leftS <= 0 ? [AlerterMode.Alarm, alarmS] : [AlerterMode.Countdown, leftS];
+                    } else {
+                        return leftS <= 0 ? AlerterMode.Penalty : [AlerterMode.Alarm, leftS];
+                    }
                 }
-            }
-        }, accumStart),
+            },
+            accumStart,
+            saveCodec,
+            save
+        ),
         frp.map(accum => {
             return {
                 brakes: accum === AlerterMode.Penalty ? AlerterBrake.Penalty : AlerterBrake.None,
                 alarm: accum === AlerterMode.Penalty || accum[0] === AlerterMode.Alarm,
             };
-        })
+        }),
+        finalize(disposeCutInOut, disposeCamera)
     );
 }
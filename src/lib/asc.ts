@@ -2,16 +2,18 @@
 /**
  * Automatic Speed Control for the Long Island Rail Road.
  *
- * TODO: Implement brake assurance check. It's likely impossible to fail in the
- * sim, but it would still be a nice touch. It shows a yellow indicator in the
- * cockpit if successfully met.
+ * After an overspeed, the engineer must slow the train at a minimum rate, or
+ * else ASC applies the emergency brakes. When the rate is met, the brake
+ * assurance indicator in the cockpit lights up yellow.
  */
 
+import { BrakingPerformance } from "./braking";
 import * as cs from "./cabsignals";
 import * as c from "./constants";
 import * as frp from "./frp";
 import { FrpEngine } from "./frp-engine";
-import { fsm, mapBehavior } from "./frp-extra";
+import { finalize, fsm, mapBehavior } from "./frp-extra";
+import { ControlSlot, PlayerUpdate, StateCodec } from "./frp-vehicle";
 import * as rw from "./railworks";
 
 export type AscState = {
@@ -57,7 +59,48 @@ enum AscEventType {
     Overspeed,
 }
 
+const saveCodec: StateCodec<AscAccum> = {
+    encode: accum => {
+        if (accum === AscMode.Normal || accum === AscMode.Emergency) {
+            return [accum];
+        }
+        const [mode] = accum;
+        if (mode === AscMode.Downgrade) {
+            const [, stopwatchS, ack] = accum;
+            return [mode, stopwatchS, ack ? 1 : 0];
+        } else {
+            const [, initAspect, initSpeedMps, stopwatchS, ack, ba] = accum;
+            return [mode, stopwatchS, ack ? 1 : 0, ba ? 1 : 0, initAspect, initSpeedMps];
+        }
+    },
+    decode: ([mode, stopwatchS, ack, ba, initAspect, initSpeedMps]) => {
+        switch (Math.round(mode)) {
+            case AscMode.Downgrade:
+                return [AscMode.Downgrade, stopwatchS, ack > 0.5];
+            case AscMode.Overspeed:
+                return [
+                    AscMode.Overspeed,
+                    Math.round(initAspect) as cs.LirrAspect,
+                    initSpeedMps,
+                    stopwatchS,
+                    ack > 0.5,
+                    ba > 0.5,
+                ];
+            case AscMode.Emergency:
+                return AscMode.Emergency;
+            default:
+                return AscMode.Normal;
+        }
+    },
+};
+
+/**
+ * Recent samples of the train's speed, oldest first.
+ */
+type SpeedSamples = [elapsedS: number, speedMps: number][];
+
 const popupS = 5;
+const brakeAssuranceWindowS = 1;
 const downgradePenaltyS = 7;
 const downgradeMaxServiceS = 14;
 const downgradeEmergencyS = 21;
@@ -72,7 +115,12 @@ const downgradeEmergencyS = 21;
  * placed into a braking or the coast position.
  * @param cutIn An behavior that indicates the state of the cut in control.
  * @param hasPower A behavior that indicates the unit is powered and keyed in.
+ * @param braking A behavior that indicates the braking performance of the
+ * consist, which scales the brake assurance rate.
+ * @param save Six control values to save the penalty timers to, if they
+ * should survive a save and resume.
  * @returns An event stream that commmunicates all state for this system.
+ * Unsubscribing from it tears down the system.
  */
 export function create(
     e: FrpEngine,
@@ -80,7 +128,9 @@ export function create(
     acknowledge: frp.Behavior<boolean>,
     coastOrBrake: frp.Behavior<boolean>,
     cutIn: frp.Behavior<boolean>,
-    hasPower: frp.Behavior<boolean>
+    hasPower: frp.Behavior<boolean>,
+    braking: frp.Behavior<BrakingPerformance>,
+    save: ControlSlot[] = []
 ): frp.Stream<AscState> {
     const cutInOut$ = frp.compose(
         e.createPlayerWithKeyUpdateStream(),
@@ -91,19 +141,37 @@ export function create(
         // of the control value settle delay, so ignore that first transition.
         frp.filter(([from, to]) => from !== to && !(from === undefined && !to))
     );
-    cutInOut$(([, to]) => {
+    const disposeCutInOut = cutInOut$(([, to]) => {
         const msg = to ? "Enabled" : "Disabled";
         rw.ScenarioManager.ShowAlertMessageExt("ASC Signal Speed Enforcement", msg, popupS, "");
     });
 
     const isActive = frp.liftN((cutIn, hasPower) => cutIn && hasPower, cutIn, hasPower);
     const aSpeedMps = () => Math.abs(e.rv.GetControlValue("SpeedometerMPH", 0) as number) * c.mph.toMps;
-    const theCabAspect = frp.stepper(cabAspect, undefined);
+    const [theCabAspect, disposeCabAspect] = frp.disposableStepper(cabAspect, undefined);
+    // The game's acceleration isn't reliable - it's reversed when switching
+    // ends of the train, and there's no easy way to tell whether it is. So,
+    // measure the rate of change of the absolute speed instead.
+    const accelMps2$ = frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.fold<SpeedSamples, PlayerUpdate>((samples, pu) => {
+            const [lastS] = samples[samples.length - 1] ?? [0];
+            const nowS = lastS + pu.dt;
+            return [
+                ...samples.filter(([elapsedS]) => nowS - elapsedS <= brakeAssuranceWindowS),
+                [nowS, frp.snapshot(aSpeedMps)],
+            ];
+        }, []),
+        frp.map(toWindowAccelerationMps2)
+    );
+    const [accelMps2, disposeAccel] = frp.disposableStepper(accelMps2$, undefined);
     const isBrakeAssurance = (aspect: cs.LirrAspect, speedMps: number) => {
         const rateMps2 = toBrakeAssuranceRateMps2(aspect, speedMps);
-        // Acceleration isn't reliable - it's reversed when switching ends of
-        // the train, and there's no easy way to tell whether it is.
-        return rateMps2 !== undefined ? -math.abs(e.rv.GetAcceleration()) < rateMps2 : undefined;
+        if (rateMps2 === undefined) {
+            return undefined;
+        }
+        const measuredMps2 = frp.snapshot(accelMps2);
+        return measuredMps2 !== undefined && measuredMps2 <= rateMps2 * frp.snapshot(braking).rateFactor;
     };
 
     const isOverspeed = frp.liftN(
@@ -137,106 +205,113 @@ export function create(
         frp.map((pu): AscEvent => [AscEventType.Update, pu.dt]),
         frp.merge(overspeed$),
         frp.merge(downgrade$),
-        frp.fold<AscAccum, AscEvent>((accum, event) => {
-            if (!frp.snapshot(isActive)) {
-                return AscMode.Normal;
-            }
-
-            const stopped = frp.snapshot(aSpeedMps) < c.stopSpeed;
+        e.foldWithSave<AscAccum, AscEvent>(
+            (accum, event) => {
+                if (!frp.snapshot(isActive)) {
+                    return AscMode.Normal;
+                }
 
-            if (accum === AscMode.Emergency) {
-                // Emergency braking; stay until the train has stopped.
-                return frp.snapshot(acknowledge) && frp.snapshot(coastOrBrake) && stopped
-                    ? AscMode.Normal
-                    : AscMode.Emergency;
-            }
+                const stopped = frp.snapshot(aSpeedMps) < c.stopSpeed;
 
-            if (accum === AscMode.Normal) {
-                if (event === AscEventType.Downgrade) {
-                    // Move to the downgrade state.
-                    return [AscMode.Downgrade, 0, false];
+                if (accum === AscMode.Emergency) {
+                    // Emergency braking; stay until the train has stopped.
+                    return frp.snapshot(acknowledge) && frp.snapshot(coastOrBrake) && stopped
+                        ? AscMode.Normal
+                        : AscMode.Emergency;
                 }
 
-                const [e] = event;
-                if (e === AscEventType.Overspeed) {
-                    // Move to the overspeed state.
-                    const [, initAspect, initSpeedMps] = event;
-                    return [AscMode.Overspeed, initAspect, initSpeedMps, 0, false, false];
-                }
+                if (accum === AscMode.Normal) {
+                    if (event === AscEventType.Downgrade) {
+                        // Move to the downgrade state.
+                        return [AscMode.Downgrade, 0, false];
+                    }
 
-                // Just a clock update; do nothing.
-                return accum;
-            }
+                    const [e] = event;
+                    if (e === AscEventType.Overspeed) {
+                        // Move to the overspeed state.
+                        const [, initAspect, initSpeedMps] = event;
+                        return [AscMode.Overspeed, initAspect, initSpeedMps, 0, false, false];
+                    }
 
-            // Downgrade state
-            const [mode] = accum;
-            if (mode === AscMode.Downgrade) {
-                if (event === AscEventType.Downgrade) {
-                    // Already in the downgrade state; do nothing.
+                    // Just a clock update; do nothing.
                     return accum;
                 }
 
-                const [e] = event;
-                if (e === AscEventType.Overspeed) {
-                    // An overspeed overrides the downgrade timer.
-                    const [, initAspect, initSpeedMps] = event;
-                    return [AscMode.Overspeed, initAspect, initSpeedMps, 0, false, false];
-                }
+                // Downgrade state
+                const [mode] = accum;
+                if (mode === AscMode.Downgrade) {
+                    if (event === AscEventType.Downgrade) {
+                        // Already in the downgrade state; do nothing.
+                        return accum;
+                    }
 
-                // Clock update; move to another state if warranted, or add
-                // time to the stopwatch.
-                const [, stopwatchS, ack] = accum;
-                if (ack) {
-                    return AscMode.Normal;
-                } else if (stopwatchS > downgradeEmergencyS) {
-                    return AscMode.Emergency;
-                }
-                const [, dt] = event;
-                return [AscMode.Downgrade, stopwatchS + dt, frp.snapshot(acknowledge) || ack];
-            }
+                    const [e] = event;
+                    if (e === AscEventType.Overspeed) {
+                        // An overspeed overrides the downgrade timer.
+                        const [, initAspect, initSpeedMps] = event;
+                        return [AscMode.Overspeed, initAspect, initSpeedMps, 0, false, false];
+                    }
 
-            // Overspeed state
-            {
-                if (event === AscEventType.Downgrade) {
-                    // The overspeed state ignores downgrades.
-                    return accum;
+                    // Clock update; move to another state if warranted, or add
+                    // time to the stopwatch.
+                    const [, stopwatchS, ack] = accum;
+                    if (ack) {
+                        return AscMode.Normal;
+                    } else if (stopwatchS > downgradeEmergencyS) {
+                        return AscMode.Emergency;
+                    }
+                    const [, dt] = event;
+                    return [AscMode.Downgrade, stopwatchS + dt, frp.snapshot(acknowledge) || ack];
                 }
 
-                const [e] = event;
-                if (e === AscEventType.Overspeed) {
-                    // Ignore additional overspeed events, which are likely
-                    // redundant.
-                    return accum;
-                }
+                // Overspeed state
+                {
+                    if (event === AscEventType.Downgrade) {
+                        // The overspeed state ignores downgrades.
+                        return accum;
+                    }
 
-                // Clock update; move to another state if warranted, or trip
-                // the acknowledgement flag and add time to the stopwatch.
-                const [, initAspect, initSpeedMps, stopwatchS, ack, ba] = accum;
-                const theAspect = frp.snapshot(theCabAspect);
-                const underSpeed =
-                    theAspect === undefined || frp.snapshot(aSpeedMps) < toUnderspeedSetpointMps(theAspect);
-                const acked = ack || frp.snapshot(acknowledge);
-                if (underSpeed && acked && frp.snapshot(coastOrBrake)) {
-                    // Penalty acknowledged and we are under-speed.
-                    return AscMode.Normal;
-                }
+                    const [e] = event;
+                    if (e === AscEventType.Overspeed) {
+                        // Ignore additional overspeed events, which are likely
+                        // redundant.
+                        return accum;
+                    }
 
-                // Brake assurance rate check
-                const brakeAssuranceTimeS = toBrakeAssuranceTimeS(initAspect, initSpeedMps);
-                const brakeAssurance = ba || (isBrakeAssurance(initAspect, initSpeedMps) ?? true);
-                // Be extra generous with the brake assurance time period, as
-                // it's a video game...
-                if (brakeAssuranceTimeS !== undefined && stopwatchS > brakeAssuranceTimeS * 3 && !brakeAssurance) {
-                    // Brake assurance timer has elapsed; apply emergency
-                    // braking.
-                    return AscMode.Emergency;
-                } else {
-                    // Update stopwatch and acknowledgement states.
-                    const [, dt] = event;
-                    return [AscMode.Overspeed, initAspect, initSpeedMps, stopwatchS + dt, acked, brakeAssurance];
+                    // Clock update; move to another state if warranted, or trip
+                    // the acknowledgement flag and add time to the stopwatch.
+                    const [, initAspect, initSpeedMps, stopwatchS, ack, ba] = accum;
+                    const theAspect = frp.snapshot(theCabAspect);
+                    const underSpeed =
+                        theAspect === undefined || frp.snapshot(aSpeedMps) < toUnderspeedSetpointMps(theAspect);
+                    const acked = ack || frp.snapshot(acknowledge);
+                    if (underSpeed && acked && frp.snapshot(coastOrBrake)) {
+                        // Penalty acknowledged and we are under-speed.
+                        return AscMode.Normal;
+                    }
+
+                    // Brake assurance rate check
+                    const assuranceTimeS = toBrakeAssuranceTimeS(initAspect, initSpeedMps);
+                    const brakeAssuranceTimeS =
+                        assuranceTimeS !== undefined ? assuranceTimeS + frp.snapshot(braking).buildUpS : undefined;
+                    const brakeAssurance = ba || (isBrakeAssurance(initAspect, initSpeedMps) ?? true);
+                    // Be extra generous with the brake assurance time period, as
+                    // it's a video game...
+                    if (brakeAssuranceTimeS !== undefined && stopwatchS > brakeAssuranceTimeS * 3 && !brakeAssurance) {
+                        // Brake assurance timer has elapsed; apply emergency
+                        // braking.
+                        return AscMode.Emergency;
+                    } else {
+                        // Update stopwatch and acknowledgement states.
+                        const [, dt] = event;
+                        return [AscMode.Overspeed, initAspect, initSpeedMps, stopwatchS + dt, acked, brakeAssurance];
+                    }
                 }
-            }
-        }, AscMode.Normal),
+            },
+            AscMode.Normal,
+            saveCodec,
+            save
+        ),
         frp.map(accum => {
             if (accum === AscMode.Normal) {
                 return {
@@ -297,7 +372,8 @@ export function create(
                 atcForestall: !ba,
                 brakeAssurance: ba && initAspect !== cs.LirrAspect.Speed15,
             };
-        })
+        }),
+        finalize(disposeCutInOut, disposeCabAspect, disposeAccel)
     );
 }
 
@@ -327,7 +403,27 @@ function toUnderspeedSetpointMps(aspect: cs.LirrAspect) {
     );
 }
 
-function toBrakeAssuranceRateMps2(aspect: cs.LirrAspect, initSpeedMps: number): number | undefined {
+/**
+ * Measure the average acceleration over a window of speed samples.
+ * @param samples The samples, oldest first.
+ * @returns The acceleration, or undefined if the samples do not yet span most
+ * of the window.
+ */
+function toWindowAccelerationMps2(samples: SpeedSamples) {
+    const [firstS, firstMps] = samples[0];
+    const [lastS, lastMps] = samples[samples.length - 1];
+    const spanS = lastS - firstS;
+    return spanS >= brakeAssuranceWindowS * 0.9 ? (lastMps - firstMps) / spanS : undefined;
+}
+
+/**
+ * Get the deceleration rate the train must meet after an overspeed.
+ * @param aspect The cab signal aspect at the time of the overspeed.
+ * @param initSpeedMps The speed at the time of the overspeed.
+ * @returns The rate, which is negative, or undefined if there is no brake
+ * assurance check for this aspect.
+ */
+export function toBrakeAssuranceRateMps2(aspect: cs.LirrAspect, initSpeedMps: number): number | undefined {
     const speedMph = initSpeedMps * c.mps.toMph;
     const oneThree = -1.3 * c.mph.toMps;
     const oneSeven = -1.7 * c.mph.toMps;
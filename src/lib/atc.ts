@@ -0,0 +1,257 @@
+/** @noSelfInFile */
+/**
+ * Automatic Train Control for Metro-North.
+ *
+ * A downgrade or an overspeed sounds the alarm, which the engineer must
+ * acknowledge before the time limit runs out, or else ATC applies a penalty
+ * brake. While the train remains overspeed, the engineer must keep the master
+ * controller in coast or brake. The Normal aspect carries no speed setpoint;
+ * the civil speed is left to ACSES.
+ *
+ * This system reports the same state as ASC, so an engine script can create it
+ * in place of ASC.
+ */
+
+import { AscBrake, AscState } from "./asc";
+import * as cs from "./cabsignals";
+import * as c from "./constants";
+import * as frp from "./frp";
+import { FrpEngine } from "./frp-engine";
+import { finalize, fsm, mapBehavior } from "./frp-extra";
+import { ControlSlot, StateCodec } from "./frp-vehicle";
+import * as rw from "./railworks";
+
+type AtcAccum = AtcMode.Normal | [mode: AtcMode.Alert, stopwatchS: number] | AtcMode.Forestall | AtcMode.Penalty;
+enum AtcMode {
+    Normal,
+    Alert,
+    Forestall,
+    Penalty,
+}
+
+type AtcEvent = [type: AtcEventType.Update, deltaS: number] | AtcEventType.Downgrade | AtcEventType.Overspeed;
+enum AtcEventType {
+    Update,
+    Downgrade,
+    Overspeed,
+}
+
+const saveCodec: StateCodec<AtcAccum> = {
+    encode: accum => {
+        if (typeof accum === "number") {
+            return [accum, 0];
+        }
+        const [mode, stopwatchS] = accum;
+        return [mode, stopwatchS];
+    },
+    decode: ([mode, stopwatchS]) => {
+        switch (Math.round(mode)) {
+            case AtcMode.Alert:
+                return [AtcMode.Alert, stopwatchS];
+            case AtcMode.Forestall:
+                return AtcMode.Forestall;
+            case AtcMode.Penalty:
+                return AtcMode.Penalty;
+            default:
+                return AtcMode.Normal;
+        }
+    },
+};
+
+const popupS = 5;
+/**
+ * The time the engineer has to acknowledge the alarm.
+ */
+export const acknowledgeS = 6;
+
+/**
+ * Create a new ATC instance.
+ * @param e The player's engine.
+ * @param cabAspect A stream that indicates the current cab signal aspect.
+ * @param acknowledge A behavior that indicates the state of the acknowledge
+ * button.
+ * @param coastOrBrake A behavior that indicates the master controller has been
+ * placed into a braking or the coast position.
+ * @param cutIn An behavior that indicates the state of the cut in control.
+ * @param hasPower A behavior that indicates the unit is powered and keyed in.
+ * @param save Two control values to save the alarm timer to, if it should
+ * survive a save and resume.
+ * @returns An event stream that commmunicates all state for this system.
+ * Unsubscribing from it tears down the system.
+ */
+export function create(
+    e: FrpEngine,
+    cabAspect: frp.Stream<cs.MetroNorthAspect>,
+    acknowledge: frp.Behavior<boolean>,
+    coastOrBrake: frp.Behavior<boolean>,
+    cutIn: frp.Behavior<boolean>,
+    hasPower: frp.Behavior<boolean>,
+    save: ControlSlot[] = []
+): frp.Stream<AscState> {
+    const cutInOut$ = frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.filter(_ => frp.snapshot(e.areControlsSettled)),
+        mapBehavior(cutIn),
+        fsm<undefined | boolean>(undefined),
+        // Cut in streams tend to start in false and then go to true, regardless
+        // of the control value settle delay, so ignore that first transition.
+        frp.filter(([from, to]) => from !== to && !(from === undefined && !to))
+    );
+    const disposeCutInOut = cutInOut$(([, to]) => {
+        const msg = to ? "Enabled" : "Disabled";
+        rw.ScenarioManager.ShowAlertMessageExt("ATC Signal Speed Enforcement", msg, popupS, "");
+    });
+
+    const isActive = frp.liftN((cutIn, hasPower) => cutIn && hasPower, cutIn, hasPower);
+    const aSpeedMps = () => Math.abs(e.rv.GetControlValue("SpeedometerMPH", 0) as number) * c.mph.toMps;
+    const [theCabAspect, disposeCabAspect] = frp.disposableStepper(cabAspect, undefined);
+
+    const isOverspeed = frp.liftN(
+        (isActive, speedMps, cabAspect) => {
+            const setpointMps = cabAspect !== undefined ? toOverspeedSetpointMps(cabAspect) : undefined;
+            return isActive && setpointMps !== undefined && speedMps > setpointMps;
+        },
+        isActive,
+        aSpeedMps,
+        theCabAspect
+    );
+    const isUnderspeed = frp.liftN(
+        (speedMps, cabAspect) => {
+            const setpointMps = cabAspect !== undefined ? toUnderspeedSetpointMps(cabAspect) : undefined;
+            return setpointMps === undefined || speedMps <= setpointMps;
+        },
+        aSpeedMps,
+        theCabAspect
+    );
+    const overspeed$ = frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        mapBehavior(isOverspeed),
+        fsm(false),
+        frp.filter(([from, to]) => !from && to),
+        frp.map((_): AtcEvent => AtcEventType.Overspeed)
+    );
+
+    const downgrade$ = frp.compose(
+        cabAspect,
+        fsm(cs.MetroNorthAspect.Restricting),
+        frp.filter(([from, to]) => (to as number) < (from as number)),
+        frp.filter(_ => frp.snapshot(isActive)),
+        frp.map((_): AtcEvent => AtcEventType.Downgrade)
+    );
+
+    return frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.map((pu): AtcEvent => [AtcEventType.Update, pu.dt]),
+        frp.merge(overspeed$),
+        frp.merge(downgrade$),
+        e.foldWithSave<AtcAccum, AtcEvent>(
+            (accum, event) => {
+                if (!frp.snapshot(isActive)) {
+                    return AtcMode.Normal;
+                }
+
+                if (accum === AtcMode.Penalty) {
+                    // Penalty braking; stay until the train has stopped.
+                    const stopped = frp.snapshot(aSpeedMps) < c.stopSpeed;
+                    return frp.snapshot(acknowledge) && frp.snapshot(coastOrBrake) && stopped
+                        ? AtcMode.Normal
+                        : AtcMode.Penalty;
+                }
+
+                if (event === AtcEventType.Downgrade || event === AtcEventType.Overspeed) {
+                    // Sound the alarm, unless it is already sounding.
+                    return typeof accum === "number" ? [AtcMode.Alert, 0] : accum;
+                }
+
+                if (accum === AtcMode.Normal) {
+                    // Just a clock update; do nothing.
+                    return accum;
+                }
+
+                if (accum === AtcMode.Forestall) {
+                    // Taking power while overspeed forfeits the forestall.
+                    if (frp.snapshot(isUnderspeed)) {
+                        return AtcMode.Normal;
+                    } else {
+                        return frp.snapshot(coastOrBrake) ? AtcMode.Forestall : AtcMode.Penalty;
+                    }
+                }
+
+                // Alert state
+                const [, stopwatchS] = accum;
+                if (frp.snapshot(acknowledge) && frp.snapshot(coastOrBrake)) {
+                    return frp.snapshot(isUnderspeed) ? AtcMode.Normal : AtcMode.Forestall;
+                } else if (stopwatchS > acknowledgeS) {
+                    return AtcMode.Penalty;
+                }
+                const [, dt] = event;
+                return [AtcMode.Alert, stopwatchS + dt];
+            },
+            AtcMode.Normal,
+            saveCodec,
+            save
+        ),
+        frp.map((accum): AscState => {
+            const overspeed = !frp.snapshot(isUnderspeed);
+            if (accum === AtcMode.Normal) {
+                return {
+                    brakes: AscBrake.None,
+                    alarm: false,
+                    overspeed: false,
+                    atcForestall: false,
+                    brakeAssurance: false,
+                };
+            } else if (accum === AtcMode.Forestall) {
+                return {
+                    brakes: AscBrake.None,
+                    alarm: false,
+                    overspeed,
+                    atcForestall: true,
+                    brakeAssurance: false,
+                };
+            } else if (accum === AtcMode.Penalty) {
+                return {
+                    brakes: AscBrake.Penalty,
+                    alarm: true,
+                    overspeed,
+                    atcForestall: false,
+                    brakeAssurance: false,
+                };
+            } else {
+                return {
+                    brakes: AscBrake.None,
+                    alarm: true,
+                    overspeed,
+                    atcForestall: false,
+                    brakeAssurance: false,
+                };
+            }
+        }),
+        finalize(disposeCutInOut, disposeCabAspect)
+    );
+}
+
+/**
+ * Get the speed above which the alarm sounds.
+ * @param aspect The cab signal aspect.
+ * @returns The speed, or undefined if the aspect is not enforced.
+ */
+export function toOverspeedSetpointMps(aspect: cs.MetroNorthAspect) {
+    const mph = {
+        [cs.MetroNorthAspect.Restricting]: 17,
+        [cs.MetroNorthAspect.Medium]: 32,
+        [cs.MetroNorthAspect.Limited]: 47,
+        [cs.MetroNorthAspect.Normal]: undefined,
+    }[aspect];
+    return mph !== undefined ? mph * c.mph.toMps : undefined;
+}
+
+function toUnderspeedSetpointMps(aspect: cs.MetroNorthAspect) {
+    const mph = {
+        [cs.MetroNorthAspect.Restricting]: 15,
+        [cs.MetroNorthAspect.Medium]: 30,
+        [cs.MetroNorthAspect.Limited]: 45,
+        [cs.MetroNorthAspect.Normal]: undefined,
+    }[aspect];
+    return mph !== undefined ? mph * c.mph.toMps : undefined;
+}
@@ -0,0 +1,198 @@
+/** @noSelfInFile */
+/**
+ * Braking performance model for the safety systems.
+ *
+ * Speed enforcement curves and brake assurance checks assume a nominal
+ * deceleration rate. This module adjusts that rate for the consist the player
+ * is driving: its mass, the gradient under the whole train, and the time the
+ * brakes take to apply along its length.
+ */
+
+import * as frp from "./frp";
+import { FrpEngine } from "./frp-engine";
+import { PlayerUpdate } from "./frp-vehicle";
+
+/**
+ * How brake applications are transmitted along the train.
+ */
+export enum BrakeSystem {
+    /**
+     * Applications propagate along the brake pipe.
+     */
+    Pneumatic,
+    /**
+     * Applications are commanded electrically in every car at once.
+     */
+    Electropneumatic,
+}
+
+/**
+ * Describes the braking characteristics of a type of train.
+ */
+export type BrakingModel = {
+    brakes: BrakeSystem;
+    /**
+     * The mass per metre of train the nominal rates are designed for. Heavier
+     * trains brake more slowly.
+     */
+    designMassPerMKg: number;
+};
+
+/**
+ * The consist data the braking performance depends on.
+ */
+export type ConsistData = {
+    lengthM: number;
+    massKg: number;
+    /**
+     * The mean gradient under the train.
+     */
+    gradientPct: number;
+};
+
+export type BrakingPerformance = {
+    /**
+     * The proportion of the nominal deceleration rate this train can achieve.
+     */
+    rateFactor: number;
+    /**
+     * The time it takes for an application to take effect throughout the
+     * train.
+     */
+    buildUpS: number;
+};
+
+/**
+ * The performance assumed when nothing is known about the consist.
+ */
+export const nominalPerformance: BrakingPerformance = { rateFactor: 1, buildUpS: 0 };
+
+/**
+ * A stretch of track the head end has traveled over, with its gradient.
+ */
+export type GradientSample = [traveledM: number, gradientPct: number];
+
+const pipePropagationMps = 150;
+/**
+ * New gradient readings are merged into the latest sample until it is this
+ * long, so that a crawling train does not pile up samples. Readings taken
+ * while stopped are always merged.
+ */
+const gradientSampleM = 5;
+/**
+ * The most gradient samples kept, whatever the length of the train.
+ */
+const maxGradientSamples = 256;
+
+/**
+ * Compute the braking performance of a consist.
+ * @param model The braking model.
+ * @param consist The consist data.
+ * @returns The braking performance.
+ */
+export function toPerformance(model: BrakingModel, consist: ConsistData): BrakingPerformance {
+    const designMassKg = model.designMassPerMKg * consist.lengthM;
+    const massFactor = consist.massKg > designMassKg ? designMassKg / consist.massKg : 1;
+    return {
+        rateFactor: massFactor * gradientFactor(consist.gradientPct),
+        buildUpS: model.brakes === BrakeSystem.Pneumatic ? consist.lengthM / pipePropagationMps : 0,
+    };
+}
+
+/**
+ * Compute the effect of the gradient on the braking rate. Uphill gradients
+ * help the train stop, and downhill gradients hinder it.
+ * @param gradientPct The gradient as a percentage.
+ * @returns The proportion of the level-track braking rate.
+ */
+export function gradientFactor(gradientPct: number): number {
+    if (gradientPct > 0) {
+        return 1 + (1 - gradientFactor(-gradientPct));
+    } else if (gradientPct < -2.96) {
+        return 1 - 0.7;
+    } else if (gradientPct < -2.64) {
+        return 1 - 0.6;
+    } else if (gradientPct < -2.26) {
+        return 1 - 0.5;
+    } else if (gradientPct < -1.83) {
+        return 1 - 0.4;
+    } else if (gradientPct < -1.32) {
+        return 1 - 0.3;
+    } else if (gradientPct < -0.72) {
+        return 1 - 0.2;
+    } else if (gradientPct < -0.3) {
+        return 1 - 0.1;
+    } else {
+        return 1;
+    }
+}
+
+/**
+ * Record the gradient under the head end and drop the samples that have
+ * fallen behind the rear of the train.
+ * @param samples The current samples, newest first.
+ * @param traveledM The distance traveled since the last sample.
+ * @param gradientPct The current gradient.
+ * @param lengthM The length of the train.
+ * @returns The new samples, newest first.
+ */
+export function addGradientSample(
+    samples: GradientSample[],
+    traveledM: number,
+    gradientPct: number,
+    lengthM: number
+): GradientSample[] {
+    let latest: GradientSample = [traveledM, gradientPct];
+    let rest = samples;
+    if (samples.length > 0 && (traveledM === 0 || samples[0][0] < gradientSampleM)) {
+        const [latestM, latestPct] = samples[0];
+        const mergedM = latestM + traveledM;
+        latest = [mergedM, mergedM > 0 ? (latestM * latestPct + traveledM * gradientPct) / mergedM : gradientPct];
+        rest = samples.slice(1);
+    }
+    let kept: GradientSample[] = [latest];
+    let totalM = latest[0];
+    for (const sample of rest) {
+        if (totalM >= lengthM || kept.length >= maxGradientSamples) {
+            break;
+        }
+        kept.push(sample);
+        totalM += sample[0];
+    }
+    return kept;
+}
+
+/**
+ * Create a continuously updating stream of the braking performance of the
+ * player's consist. The gradient is averaged over the track the head end has
+ * covered within the length of the train.
+ * @param e The player's engine.
+ * @param model The braking model.
+ * @returns The new event stream of braking performance.
+ */
+export function create(e: FrpEngine, model: BrakingModel): frp.Stream<BrakingPerformance> {
+    return frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.fold<GradientSample[], PlayerUpdate>((samples, pu) => {
+            return addGradientSample(
+                samples,
+                Math.abs(pu.speedMps * pu.dt),
+                e.rv.GetGradient(),
+                e.rv.GetConsistLength()
+            );
+        }, []),
+        frp.map(samples => {
+            let totalM = 0;
+            let weightedPct = 0;
+            for (const [traveledM, gradientPct] of samples) {
+                totalM += traveledM;
+                weightedPct += traveledM * gradientPct;
+            }
+            return toPerformance(model, {
+                lengthM: e.rv.GetConsistLength(),
+                massKg: e.rv.GetConsistTotalMass(),
+                gradientPct: totalM > 0 ? weightedPct / totalM : e.rv.GetGradient(),
+            });
+        })
+    );
+}
@@ -45,72 +45,224 @@ export enum LirrAspect {
 }
 
 /**
- * Attempt to convert a signal message to a pulse code.
- * @param signalMessage The custom signal message.
- * @returns The pulse code, if one matches.
+ * A cab signal aspect for Metro-North trains.
  */
-export function toPulseCode(signalMessage: string) {
-    // Signals scripted by Brandon Phelan.
-    const [, , sig, speed] = string.find(signalMessage, "^sig(%d)speed(%d+)$");
-    if (sig === "1" && speed == "150") {
-        return PulseCode.C_180_180;
-    } else if (sig === "1" && speed == "100") {
-        return PulseCode.C_270_270;
-    } else if (sig === "1") {
-        return PulseCode.C_180_0;
-    } else if (sig === "2") {
-        return PulseCode.C_120_120;
-    } else if (sig === "3") {
-        return PulseCode.C_270_0;
-    } else if (sig === "4") {
-        return PulseCode.C_120_0;
-    } else if (sig === "5") {
-        return PulseCode.C_75_75;
-    } else if (sig === "6") {
-        return PulseCode.C_75_0;
-    } else if (sig === "7" && speed === "60") {
-        return PulseCode.C_420_0;
-    } else if (sig === "7") {
-        return PulseCode.C_0_0;
-    }
-    const [, , stop] = string.find(signalMessage, "^sig7stop(%d+)$");
-    if (stop !== undefined) {
-        return PulseCode.C_0_0;
-    }
+export enum MetroNorthAspect {
+    Restricting = 0,
+    Medium = 1,
+    Limited = 2,
+    Normal = 3,
+}
 
-    // Signals scripted by DTG for Amtrak and NJ Transit DLC's.
-    const [, , sig2] = string.find(signalMessage, "^sig(%d+)");
-    if (sig2 === "1") {
-        return PulseCode.C_180_0;
-    } else if (sig2 === "2") {
-        return PulseCode.C_120_120;
-    } else if (sig2 === "3") {
-        return PulseCode.C_270_0;
-    } else if (sig2 === "4") {
-        return PulseCode.C_120_0;
-    } else if (sig2 === "5") {
-        return PulseCode.C_75_75;
-    } else if (sig2 === "6") {
-        return PulseCode.C_75_0;
-    } else if (sig2 === "7") {
-        return PulseCode.C_0_0;
+/**
+ * The cab signal and positive stop information carried by a signal message.
+ */
+export type SignalMessageInfo = {
+    /**
+     * The pulse code, if the message sets one.
+     */
+    pulseCode?: PulseCode;
+    /**
+     * The positive stop distance if a positive stop is imminent, or false if
+     * there is definitively not an upcoming positive stop, or undefined if
+     * the message provides no information.
+     */
+    positiveStopDistanceM?: number | false;
+    /**
+     * The signal speed, if the message specifies one.
+     */
+    speedMps?: number;
+};
+
+/**
+ * Reads the signal messages of a particular signalling system.
+ */
+export type SignalMessageDecoder = {
+    /**
+     * The name of the decoder, which must be unique.
+     */
+    name: string;
+    /**
+     * Decode a signal message, or return undefined if it is not in the format
+     * understood by this decoder.
+     */
+    decode: (signalMessage: string) => SignalMessageInfo | undefined;
+};
+
+/**
+ * Signals scripted by Brandon Phelan.
+ */
+export const phelanDecoder: SignalMessageDecoder = {
+    name: "Phelan",
+    decode: signalMessage => {
+        const [, , sig, speed] = string.find(signalMessage, "^sig(%d)speed(%d+)$");
+        if (sig !== undefined) {
+            let pulseCode;
+            if (sig === "1" && speed == "150") {
+                pulseCode = PulseCode.C_180_180;
+            } else if (sig === "1" && speed == "100") {
+                pulseCode = PulseCode.C_270_270;
+            } else if (sig === "1") {
+                pulseCode = PulseCode.C_180_0;
+            } else if (sig === "2") {
+                pulseCode = PulseCode.C_120_120;
+            } else if (sig === "3") {
+                pulseCode = PulseCode.C_270_0;
+            } else if (sig === "4") {
+                pulseCode = PulseCode.C_120_0;
+            } else if (sig === "5") {
+                pulseCode = PulseCode.C_75_75;
+            } else if (sig === "6") {
+                pulseCode = PulseCode.C_75_0;
+            } else if (sig === "7" && speed === "60") {
+                pulseCode = PulseCode.C_420_0;
+            } else if (sig === "7") {
+                pulseCode = PulseCode.C_0_0;
+            }
+            return {
+                pulseCode,
+                positiveStopDistanceM: false,
+                speedMps: parseInt(speed as string) * c.mph.toMps,
+            };
+        }
+
+        const [, , stop] = string.find(signalMessage, "^sig7stop(%d+)$");
+        if (stop !== undefined) {
+            return { pulseCode: PulseCode.C_0_0, positiveStopDistanceM: parseInt(stop as string) * c.ft.toM };
+        }
+
+        return undefined;
+    },
+};
+
+/**
+ * Signals scripted by DTG for Amtrak and NJ Transit DLC's.
+ */
+export const dtgNecDecoder: SignalMessageDecoder = {
+    name: "DTG NEC",
+    decode: signalMessage => {
+        const [, , sig] = string.find(signalMessage, "^sig(%d+)");
+        if (sig === undefined) {
+            return undefined;
+        }
+
+        let pulseCode;
+        if (sig === "1") {
+            pulseCode = PulseCode.C_180_0;
+        } else if (sig === "2") {
+            pulseCode = PulseCode.C_120_120;
+        } else if (sig === "3") {
+            pulseCode = PulseCode.C_270_0;
+        } else if (sig === "4") {
+            pulseCode = PulseCode.C_120_0;
+        } else if (sig === "5") {
+            pulseCode = PulseCode.C_75_75;
+        } else if (sig === "6") {
+            pulseCode = PulseCode.C_75_0;
+        } else if (sig === "7") {
+            pulseCode = PulseCode.C_0_0;
+        }
+        return { pulseCode, positiveStopDistanceM: false };
+    },
+};
+
+/**
+ * Signals scripted by DTG for Metro-North DLC's.
+ */
+export const dtgMetroNorthDecoder: SignalMessageDecoder = {
+    name: "DTG Metro-North",
+    decode: signalMessage => {
+        const [, , code] = string.find(signalMessage, "^[MN](%d%d)");
+        if (code === undefined) {
+            return undefined;
+        }
+
+        let pulseCode;
+        if (code === "10") {
+            pulseCode = PulseCode.C_180_0;
+        } else if (code === "11") {
+            pulseCode = PulseCode.C_120_0;
+        } else if (code === "12") {
+            pulseCode = PulseCode.C_75_0;
+        } else if (code === "13" || code === "14" || code === "15") {
+            pulseCode = PulseCode.C_0_0;
+        }
+        return { pulseCode, positiveStopDistanceM: false };
+    },
+};
+
+// Decoders are consulted in order, so more specific formats must come first.
+// Registered decoders come before the built-in ones, because the DTG NEC
+// decoder accepts any message that starts with "sig".
+const registered: SignalMessageDecoder[] = [];
+const builtIn: SignalMessageDecoder[] = [phelanDecoder, dtgNecDecoder, dtgMetroNorthDecoder];
+
+/**
+ * Add a decoder to the registry, or replace the decoder with the same name.
+ * New decoders are consulted after any previously registered ones, but ahead
+ * of the built-in decoders.
+ * @param decoder The decoder.
+ */
+export function registerDecoder(decoder: SignalMessageDecoder) {
+    for (const list of [registered, builtIn]) {
+        const i = list.findIndex(d => d.name === decoder.name);
+        if (i !== -1) {
+            list[i] = decoder;
+            return;
+        }
     }
+    registered.push(decoder);
+}
 
-    // Signals scripted by DTG for Metro-North DLC's.
-    const [, , code] = string.find(signalMessage, "^[MN](%d%d)");
-    if (code === "10") {
-        return PulseCode.C_180_0;
-    } else if (code === "11") {
-        return PulseCode.C_120_0;
-    } else if (code === "12") {
-        return PulseCode.C_75_0;
-    } else if (code === "13" || code === "14") {
-        return PulseCode.C_0_0;
-    } else if (code === "15") {
-        return PulseCode.C_0_0;
+function getDecoders() {
+    return [...registered, ...builtIn];
+}
+
+/**
+ * Get the names of all registered decoders, in the order they are consulted.
+ * @returns The list of names.
+ */
+export function getDecoderNames() {
+    return getDecoders().map(d => d.name);
+}
+
+/**
+ * Create a function that decodes signal messages using a selection of the
+ * registered decoders. The first decoder that understands a message wins.
+ * @param names The names of the decoders to enable, or all of them if
+ * omitted.
+ * @returns The new decoding function.
+ */
+export function createSignalMessageDecoder(names?: string[]): (signalMessage: string) => SignalMessageInfo | undefined {
+    if (names !== undefined) {
+        for (const name of names) {
+            if (!getDecoders().some(d => d.name === name)) {
+                throw `unknown signal message decoder: ${name}`;
+            }
+        }
     }
+    return signalMessage => {
+        for (const decoder of getDecoders()) {
+            if (names === undefined || names.includes(decoder.name)) {
+                const info = decoder.decode(signalMessage);
+                if (info !== undefined) {
+                    return info;
+                }
+            }
+        }
+        return undefined;
+    };
+}
+
+const decodeAny = createSignalMessageDecoder();
 
-    return undefined;
+/**
+ * Attempt to convert a signal message to a pulse code.
+ * @param signalMessage The custom signal message.
+ * @returns The pulse code, if one matches.
+ */
+export function toPulseCode(signalMessage: string) {
+    return decodeAny(signalMessage)?.pulseCode;
 }
 
 /**
@@ -122,29 +274,7 @@ export function toPulseCode(signalMessage: string) {
  * message provides no information.
  */
 export function toPositiveStopDistanceM(signalMessage: string): number | false | undefined {
-    // Signals scripted by Brandon Phelan.
-    const [, , sig, speed] = string.find(signalMessage, "^sig(%d)speed(%d+)$");
-    if (sig !== undefined) {
-        return false;
-    }
-    const [, , stop] = string.find(signalMessage, "^sig7stop(%d+)$");
-    if (stop !== undefined) {
-        return parseInt(stop as string) * c.ft.toM;
-    }
-
-    // Signals scripted by DTG for Amtrak and NJ Transit DLC's.
-    const [, , sig2] = string.find(signalMessage, "^sig(%d+)");
-    if (sig2 !== undefined) {
-        return false;
-    }
-
-    // Signals scripted by DTG for Metro-North DLC's.
-    const [, , code] = string.find(signalMessage, "^[MN](%d%d)");
-    if (code !== undefined) {
-        return false;
-    }
-
-    return undefined;
+    return decodeAny(signalMessage)?.positiveStopDistanceM;
 }
 
 /**
@@ -188,3 +318,26 @@ export function toLirrAspect(pulseCode: PulseCode) {
         [PulseCode.C_420_0]: LirrAspect.Speed60,
     }[pulseCode];
 }
+
+/**
+ * Convert a pulse code to a cab signal aspect for Metro-North equipment.
+ * @param pulseCode The pulse code.
+ * @returns The cab signal aspect.
+ */
+export function toMetroNorthAspect(pulseCode: PulseCode) {
+    // 420 Hz is an LIRR-only carrier that Metro-North equipment cannot decode.
+    // An undecodable code displays Restricting, just as it does on Amtrak
+    // equipment.
+    return {
+        [PulseCode.C_0_0]: MetroNorthAspect.Restricting,
+        [PulseCode.C_75_0]: MetroNorthAspect.Medium,
+        [PulseCode.C_75_75]: MetroNorthAspect.Medium,
+        [PulseCode.C_120_0]: MetroNorthAspect.Limited,
+        [PulseCode.C_120_120]: MetroNorthAspect.Limited,
+        [PulseCode.C_180_0]: MetroNorthAspect.Normal,
+        [PulseCode.C_180_180]: MetroNorthAspect.Normal,
+        [PulseCode.C_270_0]: MetroNorthAspect.Normal,
+        [PulseCode.C_270_270]: MetroNorthAspect.Normal,
+        [PulseCode.C_420_0]: MetroNorthAspect.Restricting,
+    }[pulseCode];
+}
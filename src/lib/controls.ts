@@ -0,0 +1,206 @@
+/** @noSelfInFile */
+/**
+ * Typed declarations for the control values of a rail vehicle.
+ *
+ * A vehicle script lists the controls it uses in a manifest, which can then be
+ * checked against the controls defined in the vehicle's blueprint. Reads and
+ * writes through a declaration are converted to and from the control's
+ * semantic type, so a misspelled control name becomes a type error instead of
+ * a silent failure.
+ */
+
+import * as frp from "./frp";
+import { AiUpdate, FrpVehicle, PlayerUpdate } from "./frp-vehicle";
+
+/**
+ * The kind of value a control represents.
+ */
+export enum ControlType {
+    Boolean,
+    Number,
+    Integer,
+}
+
+/**
+ * Declares a single control value and how to interpret it.
+ */
+export type Control<T> = {
+    name: string;
+    index: number;
+    min: number;
+    max: number;
+    type: ControlType;
+    read: (cv: number) => T;
+    /**
+     * Declared as a method, so that a declaration of any type can be listed
+     * in a manifest.
+     */
+    write(value: T): number;
+};
+
+/**
+ * A per-vehicle collection of control declarations.
+ */
+export type ControlManifest = { [key: string]: Control<unknown> };
+
+/**
+ * A control value as defined by a blueprint.
+ */
+export type BlueprintControl = { name: string; min: number; max: number };
+
+/**
+ * Declare a control that is either on (1) or off (0).
+ * @param name The name of the control.
+ * @param index The index of the control, usually 0.
+ * @returns The new declaration.
+ */
+export function booleanControl(name: string, index: number = 0): Control<boolean> {
+    return {
+        name,
+        index,
+        min: 0,
+        max: 1,
+        type: ControlType.Boolean,
+        read: cv => cv > 0.5,
+        write: value => (value ? 1 : 0),
+    };
+}
+
+/**
+ * Declare a control with a continuous range of values.
+ * @param name The name of the control.
+ * @param min The minimum value.
+ * @param max The maximum value.
+ * @param index The index of the control, usually 0.
+ * @returns The new declaration.
+ */
+export function numberControl(name: string, min: number, max: number, index: number = 0): Control<number> {
+    return { name, index, min, max, type: ControlType.Number, read: cv => cv, write: value => value };
+}
+
+/**
+ * Declare a control with a discrete range of values, which can optionally be
+ * typed as a numeric enum.
+ * @param name The name of the control.
+ * @param min The minimum value.
+ * @param max The maximum value.
+ * @param index The index of the control, usually 0.
+ * @returns The new declaration.
+ */
+export function integerControl<T extends number = number>(
+    name: string,
+    min: number,
+    max: number,
+    index: number = 0
+): Control<T> {
+    return {
+        name,
+        index,
+        min,
+        max,
+        type: ControlType.Integer,
+        read: cv => Math.round(cv) as T,
+        write: value => value,
+    };
+}
+
+/**
+ * Read a control value.
+ * @param e The rail vehicle.
+ * @param control The control declaration.
+ * @returns The value, or undefined if the control does not exist.
+ */
+export function get<T>(e: FrpVehicle, control: Control<T>): T | undefined {
+    const cv = e.rv.GetControlValue(control.name, control.index);
+    return cv !== undefined ? control.read(cv) : undefined;
+}
+
+/**
+ * Write a control value, clamped to the declared range.
+ * @param e The rail vehicle.
+ * @param control The control declaration.
+ * @param value The value to write.
+ */
+export function set<T>(e: FrpVehicle, control: Control<T>, value: T) {
+    const cv = Math.max(Math.min(control.write(value), control.max), control.min);
+    e.rv.SetControlValue(control.name, control.index, cv);
+}
+
+/**
+ * Create a behavior that reads a control value.
+ * @param e The rail vehicle.
+ * @param control The control declaration.
+ * @returns The new behavior.
+ */
+export function createBehavior<T>(e: FrpVehicle, control: Control<T>): frp.Behavior<T | undefined> {
+    return () => get(e, control);
+}
+
+/**
+ * Create a continuously updating stream of a control value that also fires for
+ * the OnControlValueChange() callback.
+ * @param e The rail vehicle.
+ * @param control The control declaration.
+ * @returns The new stream of values.
+ */
+export function createStream<T>(e: FrpVehicle, control: Control<T>): frp.Stream<T> {
+    return frp.compose(
+        e.createGetCvAndOnCvChangeStreamFor(control.name, control.index),
+        frp.map(cv => control.read(cv))
+    );
+}
+
+/**
+ * Create a stream of a control value that fires only for the
+ * OnControlValueChange() callback.
+ * @param e The rail vehicle.
+ * @param control The control declaration.
+ * @returns The new stream of values.
+ */
+export function createOnChangeStream<T>(e: FrpVehicle, control: Control<T>): frp.Stream<T> {
+    return frp.compose(
+        e.createOnCvChangeStreamFor(control.name, control.index),
+        frp.map(cv => control.read(cv))
+    );
+}
+
+/**
+ * Map an update stream to a control value.
+ * @param e The rail vehicle.
+ * @param control The control declaration.
+ * @returns A transformer that reads the value on every update.
+ */
+export function mapGetStream<T>(
+    e: FrpVehicle,
+    control: Control<T>
+): (eventStream: frp.Stream<PlayerUpdate | AiUpdate>) => frp.Stream<T> {
+    return eventStream =>
+        frp.compose(
+            eventStream,
+            e.mapGetCvStream(control.name, control.index),
+            frp.map(cv => control.read(cv))
+        );
+}
+
+/**
+ * Compare a manifest with the controls defined by a blueprint.
+ * @param manifest The manifest.
+ * @param blueprint The controls defined by the blueprint.
+ * @returns A description of each declaration that is missing from the
+ * blueprint or that exceeds the blueprint's range.
+ */
+export function checkManifest(manifest: ControlManifest, blueprint: BlueprintControl[]): string[] {
+    const problems: string[] = [];
+    for (const key in manifest) {
+        const control = manifest[key];
+        const defined = blueprint.find(bc => bc.name === control.name);
+        if (defined === undefined) {
+            problems.push(`${control.name} is not defined by the blueprint`);
+        } else if (control.min < defined.min || control.max > defined.max) {
+            problems.push(
+                `${control.name} is declared from ${control.min} to ${control.max}, but the blueprint allows ${defined.min} to ${defined.max}`
+            );
+        }
+    }
+    return problems;
+}
@@ -0,0 +1,150 @@
+/** @noSelfInFile */
+/**
+ * Passenger door control subsystem.
+ *
+ * The doors may only be opened on the sides the engineer has enabled, and
+ * only while the train is nearly stopped; doors opened anywhere else are
+ * closed again at once. Traction is interlocked until every door has been
+ * proven closed for a short time.
+ */
+
+import * as c from "./constants";
+import * as frp from "./frp";
+import { FrpEngine } from "./frp-engine";
+import { finalize, fsm } from "./frp-extra";
+import { VehicleDoors } from "./frp-vehicle";
+
+export type DoorsState = {
+    /**
+     * The sides on which the doors may be opened.
+     */
+    enabled: VehicleDoors;
+    /**
+     * True once all doors have been closed for the proving time.
+     */
+    closedProven: boolean;
+    /**
+     * True if traction power must be cut.
+     */
+    tractionInterlock: boolean;
+    /**
+     * True while the door closing chime should sound.
+     */
+    chime: boolean;
+};
+
+/**
+ * Callbacks for playing sounds in response to door movements.
+ */
+export type DoorHooks = {
+    /**
+     * Called when the doors begin to close.
+     */
+    onChime?: () => void;
+    /**
+     * Called when the doors open at a stop.
+     * @param open The sides on which the doors opened.
+     */
+    onAnnouncement?: (open: VehicleDoors) => void;
+};
+
+type DoorsAccum = { closedS: number; chimeS: number };
+
+const provingS = 2;
+const chimeS = 2.5;
+const inhibitSpeedMps = 3 * c.mph.toMps;
+
+/**
+ * Create a new door control instance.
+ * @param e The player's engine.
+ * @param enable A behavior that indicates the sides on which the engineer has
+ * enabled the doors.
+ * @param keyIn A behavior that indicates the unit is keyed in. The doors run
+ * from the battery, so they do not need traction power.
+ * @param hooks Callbacks for door sounds.
+ * @returns An event stream that commmunicates all state for this system.
+ * Unsubscribing from it tears down the system.
+ */
+export function create(
+    e: FrpEngine,
+    enable: frp.Behavior<VehicleDoors>,
+    keyIn: frp.Behavior<boolean>,
+    hooks: DoorHooks = {}
+): frp.Stream<DoorsState> {
+    const isSlow = () => Math.abs(e.rv.GetSpeed()) < inhibitSpeedMps;
+    const enabled = frp.liftN(
+        (enable, keyIn, isSlow): VehicleDoors => {
+            const [l, r] = enable;
+            return keyIn && isSlow ? [l, r] : [false, false];
+        },
+        enable,
+        keyIn,
+        isSlow
+    );
+
+    const requested$ = frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.map(pu => pu.doorsOpen),
+        frp.hub()
+    );
+    // Doors opened on a side that is not enabled are closed again at once.
+    const disposeHoldClosed = requested$(([l, r]) => {
+        const [enableL, enableR] = frp.snapshot(enabled);
+        if (l && !enableL) {
+            e.rv.SetControlValue("DoorsOpenCloseLeft", 0, 0);
+        }
+        if (r && !enableR) {
+            e.rv.SetControlValue("DoorsOpenCloseRight", 0, 0);
+        }
+    });
+
+    // Only doors that were allowed to open count as open.
+    const doors$ = frp.compose(
+        requested$,
+        frp.map(([l, r]): VehicleDoors => {
+            const [enableL, enableR] = frp.snapshot(enabled);
+            return [l && enableL, r && enableR];
+        }),
+        frp.hub()
+    );
+    const [openDoors, disposeOpenDoors] = frp.disposableStepper<VehicleDoors>(doors$, [false, false]);
+    const anyDoorOpen$ = frp.compose(
+        doors$,
+        frp.map(([l, r]) => l || r),
+        fsm(false),
+        frp.filter(([from, to]) => from !== to)
+    );
+    const disposeHooks = anyDoorOpen$(([, open]) => {
+        if (open) {
+            hooks.onAnnouncement?.(frp.snapshot(openDoors));
+        } else {
+            hooks.onChime?.();
+        }
+    });
+
+    return frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.map((pu): [dt: number, open: VehicleDoors] => [pu.dt, frp.snapshot(openDoors)]),
+        frp.fold<DoorsAccum, [dt: number, open: VehicleDoors]>(
+            (accum, [dt, [l, r]]) => {
+                const isOpen = l || r;
+                const wasClosing = accum.closedS === 0 && !isOpen;
+                return {
+                    closedS: isOpen ? 0 : accum.closedS + dt,
+                    chimeS: wasClosing ? chimeS : Math.max(accum.chimeS - dt, 0),
+                };
+            },
+            { closedS: provingS, chimeS: 0 }
+        ),
+        frp.map((accum): DoorsState => {
+            const closedProven = accum.closedS >= provingS;
+            return {
+                enabled: frp.snapshot(enabled),
+                closedProven,
+                tractionInterlock: !closedProven,
+                chime: accum.chimeS > 0,
+            };
+        }),
+        finalize(disposeHooks, disposeOpenDoors, disposeHoldClosed)
+    );
+}
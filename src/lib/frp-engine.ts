@@ -44,6 +44,7 @@ export class FrpEngine extends FrpVehicle {
         super.setup();
 
         OnCustomSignalMessage = msg => {
+            this.nextTick();
             this.signalMessageSource.call(msg);
         };
     }
@@ -19,6 +19,7 @@ export class FrpEntity {
 
     private onInit: (this: void) => void;
     private updatingEveryFrame = false;
+    private tick = 0;
 
     /**
      * Construct a new entity.
@@ -52,20 +53,49 @@ export class FrpEntity {
         return this.resumeSource.createStream();
     }
 
+    /**
+     * Cache the value of a behavior for the remainder of the current update
+     * or callback, so that everything that runs in response to it sees one
+     * consistent value.
+     * @param behavior The behavior to cache.
+     * @returns The new behavior.
+     */
+    memoize<T>(behavior: frp.Behavior<T>): frp.Behavior<T> {
+        return frp.memoize(behavior, () => this.tick);
+    }
+
+    /**
+     * Invalidate all memoized behaviors. This must be called at the start of
+     * every callback from the game.
+     */
+    protected nextTick() {
+        this.tick++;
+    }
+
     /**
      * Set the global callback functions to execute this entity.
      */
     setup() {
-        Initialise = this.onInit;
+        Initialise = () => {
+            this.nextTick();
+            this.onInit();
+        };
         Update = dt => {
+            this.nextTick();
             this.updateSource.call(dt);
             if (!this.updatingEveryFrame) {
                 // EndUpdate() must be called from the Update() callback.
                 this.e.EndUpdate();
             }
         };
-        OnSave = () => this.saveSource.call();
-        OnResume = () => this.resumeSource.call();
+        OnSave = () => {
+            this.nextTick();
+            this.saveSource.call();
+        };
+        OnResume = () => {
+            this.nextTick();
+            this.resumeSource.call();
+        };
     }
 
     /**
@@ -85,14 +115,20 @@ export class FrpEntity {
  * A list of callbacks that proxies access to a single event stream source.
  */
 export class FrpSource<T> {
-    private nexts: ((arg0: T) => void)[] = [];
+    private nexts = new Set<(arg0: T) => void>();
 
     /**
-     * Create a new event stream and register its callback to this list.
+     * Create a new event stream and register its callback to this list. The
+     * callback is removed when the subscription is cancelled.
      */
     createStream(): frp.Stream<T> {
         return next => {
-            this.nexts.push(next);
+            // Wrap the callback so that the same function can subscribe twice.
+            const entry = (value: T) => next(value);
+            this.nexts.add(entry);
+            return () => {
+                this.nexts.delete(entry);
+            };
         };
     }
 
@@ -6,9 +6,9 @@ import * as rw from "./railworks";
 /**
  * Continously display the value of an event stream to aid in FRP debugging.
  */
-export function debug(eventStream: frp.Stream<any>) {
+export function debug(eventStream: frp.Stream<any>): frp.Unsubscribe {
     const frequency = 0.5;
-    frp.throttle(frequency * 1000)(eventStream)(value => {
+    return frp.throttle(frequency * 1000)(eventStream)(value => {
         rw.ScenarioManager.ShowInfoMessageExt(
             "Event Stream",
             `${value}`,
@@ -36,7 +36,7 @@ export function rejectRepeats<T>(): (eventStream: frp.Stream<T>) => frp.Stream<T
     return eventStream => next => {
         let started = false;
         let last: T | undefined = undefined;
-        eventStream(value => {
+        return eventStream(value => {
             if (!started || last !== value) {
                 started = true;
                 last = value;
@@ -61,3 +61,280 @@ export function rejectUndefined<T>(): (eventStream: frp.Stream<T | undefined>) =
 export function mapBehavior<T>(behavior: frp.Behavior<T>): (eventStream: frp.Stream<any>) => frp.Stream<T> {
     return frp.map(_ => frp.snapshot(behavior));
 }
+
+/**
+ * Runs additional teardown functions when a subscription to an event stream is
+ * cancelled. Use this to tie the lifetime of side effects and behaviors to the
+ * stream that a subsystem returns.
+ */
+export function finalize<T>(...disposers: frp.Unsubscribe[]): (eventStream: frp.Stream<T>) => frp.Stream<T> {
+    return eventStream => next => {
+        const dispose = eventStream(next);
+        return () => {
+            dispose();
+            for (const d of disposers) {
+                d();
+            }
+        };
+    };
+}
+
+/**
+ * Delays every event of a stream by a fixed amount of simulation time.
+ * @param clock A stream of elapsed times in seconds, like the update stream of
+ * an entity.
+ * @param delayS The delay in seconds.
+ */
+export function delay<T>(clock: frp.Stream<number>, delayS: number): (eventStream: frp.Stream<T>) => frp.Stream<T> {
+    return eventStream => next => {
+        let pending: [remainingS: number, value: T][] = [];
+        const disposeEvents = eventStream(value => {
+            pending.push([delayS, value]);
+        });
+        const disposeClock = clock(dt => {
+            const ready: T[] = [];
+            const waiting: [remainingS: number, value: T][] = [];
+            for (const [remainingS, value] of pending) {
+                if (remainingS - dt <= 0) {
+                    ready.push(value);
+                } else {
+                    waiting.push([remainingS - dt, value]);
+                }
+            }
+            pending = waiting;
+            for (const value of ready) {
+                next(value);
+            }
+        });
+        return () => {
+            disposeEvents();
+            disposeClock();
+        };
+    };
+}
+
+/**
+ * Produces the last event of a burst of events once the stream has been quiet
+ * for a period of simulation time.
+ * @param clock A stream of elapsed times in seconds, like the update stream of
+ * an entity.
+ * @param quietS The quiet period in seconds.
+ */
+export function debounce<T>(clock: frp.Stream<number>, quietS: number): (eventStream: frp.Stream<T>) => frp.Stream<T> {
+    return eventStream => next => {
+        let last: [value: T] | undefined = undefined;
+        let remainingS = 0;
+        const disposeEvents = eventStream(value => {
+            last = [value];
+            remainingS = quietS;
+        });
+        const disposeClock = clock(dt => {
+            if (last !== undefined) {
+                remainingS -= dt;
+                if (remainingS <= 0) {
+                    const [value] = last;
+                    last = undefined;
+                    next(value);
+                }
+            }
+        });
+        return () => {
+            disposeEvents();
+            disposeClock();
+        };
+    };
+}
+
+/**
+ * Passes through the events of a stream, and produces a fallback value if no
+ * event arrives within a period of simulation time. The timer starts upon
+ * subscription and restarts with every event.
+ * @param clock A stream of elapsed times in seconds, like the update stream of
+ * an entity.
+ * @param limitS The time limit in seconds.
+ * @param onTimeout The value to produce when the time limit expires.
+ */
+export function timeout<T, U>(
+    clock: frp.Stream<number>,
+    limitS: number,
+    onTimeout: U
+): (eventStream: frp.Stream<T>) => frp.Stream<T | U> {
+    return eventStream => next => {
+        let remainingS: number | undefined = limitS;
+        const disposeEvents = eventStream(value => {
+            remainingS = limitS;
+            next(value);
+        });
+        const disposeClock = clock(dt => {
+            if (remainingS !== undefined) {
+                remainingS -= dt;
+                if (remainingS <= 0) {
+                    remainingS = undefined;
+                    next(onTimeout);
+                }
+            }
+        });
+        return () => {
+            disposeEvents();
+            disposeClock();
+        };
+    };
+}
+
+/**
+ * Creates an event stream that fires periodically in simulation time. Each
+ * event is the number of periods elapsed since subscription.
+ * @param clock A stream of elapsed times in seconds, like the update stream of
+ * an entity.
+ * @param periodS The period in seconds, which must be positive.
+ */
+export function interval(clock: frp.Stream<number>, periodS: number): frp.Stream<number> {
+    return next => {
+        let elapsedS = 0;
+        let count = 0;
+        return clock(dt => {
+            elapsedS += dt;
+            while (elapsedS >= periodS) {
+                elapsedS -= periodS;
+                count++;
+                next(count);
+            }
+        });
+    };
+}
+
+/**
+ * Maps every event to an inner event stream and forwards the events of the
+ * most recent one. The previous inner stream is unsubscribed.
+ */
+export function switchMap<T, U>(project: (value: T) => frp.Stream<U>): (eventStream: frp.Stream<T>) => frp.Stream<U> {
+    return eventStream => next => {
+        let inner: frp.Unsubscribe | undefined = undefined;
+        const outer = eventStream(value => {
+            if (inner !== undefined) {
+                inner();
+            }
+            inner = project(value)(next);
+        });
+        return () => {
+            outer();
+            if (inner !== undefined) {
+                inner();
+                inner = undefined;
+            }
+        };
+    };
+}
+
+/**
+ * Combines two event streams into a stream of their latest values. Nothing is
+ * produced until both streams have fired at least once.
+ */
+export function combineLatest<A, B>(
+    eventStreamB: frp.Stream<B>
+): (eventStreamA: frp.Stream<A>) => frp.Stream<[a: A, b: B]> {
+    return eventStreamA => next => {
+        // Wrap the values so that nil values can be told apart from missing
+        // ones in Lua.
+        let a: [value: A] | undefined = undefined;
+        let b: [value: B] | undefined = undefined;
+        const disposeA = eventStreamA(value => {
+            a = [value];
+            if (b !== undefined) {
+                next([value, b[0]]);
+            }
+        });
+        const disposeB = eventStreamB(value => {
+            b = [value];
+            if (a !== undefined) {
+                next([a[0], value]);
+            }
+        });
+        return () => {
+            disposeA();
+            disposeB();
+        };
+    };
+}
+
+/**
+ * Produces the latest event of a stream whenever a notifier stream fires, if
+ * the stream has fired since the last time it was sampled.
+ */
+export function sample<T>(notifier: frp.Stream<any>): (eventStream: frp.Stream<T>) => frp.Stream<T> {
+    return eventStream => next => {
+        let latest: [value: T] | undefined = undefined;
+        const disposeEvents = eventStream(value => {
+            latest = [value];
+        });
+        const disposeNotifier = notifier(_ => {
+            if (latest !== undefined) {
+                const [value] = latest;
+                latest = undefined;
+                next(value);
+            }
+        });
+        return () => {
+            disposeEvents();
+            disposeNotifier();
+        };
+    };
+}
+
+/**
+ * Pairs up the events of two streams in the order they arrive. Events that
+ * are still waiting for a partner are buffered.
+ */
+export function zip<A, B>(eventStreamB: frp.Stream<B>): (eventStreamA: frp.Stream<A>) => frp.Stream<[a: A, b: B]> {
+    return eventStreamA => next => {
+        const as: [value: A][] = [];
+        const bs: [value: B][] = [];
+        const disposeA = eventStreamA(value => {
+            const b = bs.shift();
+            if (b === undefined) {
+                as.push([value]);
+            } else {
+                next([value, b[0]]);
+            }
+        });
+        const disposeB = eventStreamB(value => {
+            const a = as.shift();
+            if (a === undefined) {
+                bs.push([value]);
+            } else {
+                next([a[0], value]);
+            }
+        });
+        return () => {
+            disposeA();
+            disposeB();
+        };
+    };
+}
+
+/**
+ * Produces an initial event upon subscription, followed by the events of the
+ * stream.
+ */
+export function startWith<T>(initial: T): (eventStream: frp.Stream<T>) => frp.Stream<T> {
+    return eventStream => next => {
+        next(initial);
+        return eventStream(next);
+    };
+}
+
+/**
+ * Produces the previous and current values of an event stream, starting with
+ * its second event. Unlike fsm(), this requires no initial value.
+ */
+export function pairwise<T>(): (eventStream: frp.Stream<T>) => frp.Stream<[from: T, to: T]> {
+    return eventStream => next => {
+        let last: [value: T] | undefined = undefined;
+        return eventStream(value => {
+            if (last !== undefined) {
+                next([last[0], value]);
+            }
+            last = [value];
+        });
+    };
+}
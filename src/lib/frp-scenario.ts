@@ -0,0 +1,127 @@
+/** @noSelfInFile */
+
+import * as frp from "./frp";
+import { FrpSource } from "./frp-entity";
+import * as rw from "./railworks";
+
+/**
+ * A scenario script responds to the events triggered by a scenario's
+ * instructions and answers the condition checks of the scenario system. Unlike
+ * other entities, it has no update loop; the game polls active conditions once
+ * per frame instead.
+ */
+export class FrpScenario {
+    private eventSource = new FrpSource<string>();
+    private handledEvents = new Set<string>();
+    private conditions = new Map<string, frp.Behavior<rw.ConditionStatus>>();
+
+    /**
+     * Create an event stream from the OnEvent() callback. This stream receives
+     * all events, but only the ones registered with createOnEventStreamFor()
+     * or triggerDeferredEvent() are reported to the game as handled.
+     * @returns The new stream of event names.
+     */
+    createOnEventStream() {
+        return this.eventSource.createStream();
+    }
+
+    /**
+     * Create an event stream that fires for a particular event, and mark that
+     * event as handled by this script.
+     * @param event The name of the event.
+     * @returns The new stream of event names.
+     */
+    createOnEventStreamFor(event: string): frp.Stream<string> {
+        this.handledEvents.add(event);
+        return frp.compose(
+            this.createOnEventStream(),
+            frp.filter(name => name === event)
+        );
+    }
+
+    /**
+     * Schedule an event to be delivered to this script after a delay.
+     * @param event The name of the event.
+     * @param timeS The time in seconds until the event should fire.
+     * @returns False if the event was already scheduled.
+     */
+    triggerDeferredEvent(event: string, timeS: number) {
+        this.handledEvents.add(event);
+        return rw.ScenarioManager.TriggerDeferredEvent(event, timeS);
+    }
+
+    /**
+     * Answer a condition whenever the game tests it, whether it was set up by
+     * this script or by an instruction in the scenario editor. Once the
+     * behavior reports success or failure, it is no longer consulted.
+     * @param condition The name of the condition.
+     * @param status A behavior that reports the status of the condition.
+     */
+    answerCondition(condition: string, status: frp.Behavior<rw.ConditionStatus>) {
+        this.conditions.set(condition, status);
+    }
+
+    /**
+     * Answer a condition and ask the game to begin testing it every frame.
+     * @param condition The name of the condition.
+     * @param status A behavior that reports the status of the condition.
+     * @returns False if the condition was already being tested.
+     */
+    beginConditionCheck(condition: string, status: frp.Behavior<rw.ConditionStatus>) {
+        this.answerCondition(condition, status);
+        return rw.ScenarioManager.BeginConditionCheck(condition);
+    }
+
+    /**
+     * Stop testing a condition. This cannot be called from within a condition
+     * behavior.
+     * @param condition The name of the condition.
+     * @returns False if the condition was no longer being tested.
+     */
+    endConditionCheck(condition: string) {
+        this.conditions.delete(condition);
+        return rw.ScenarioManager.EndConditionCheck(condition);
+    }
+
+    /**
+     * Create a condition behavior that succeeds once another behavior becomes
+     * true, or fails if that doesn't happen within a time limit. The clock
+     * starts when this function is called.
+     * @param isMet A behavior that indicates the condition has been met.
+     * @param limitS The time limit in seconds.
+     * @returns The new behavior.
+     */
+    createTimedCondition(isMet: frp.Behavior<boolean>, limitS: number): frp.Behavior<rw.ConditionStatus> {
+        const deadlineS = rw.ScenarioManager.GetScenarioTime() + limitS;
+        return () => {
+            if (frp.snapshot(isMet)) {
+                return rw.ConditionStatus.Succeeded;
+            } else if (rw.ScenarioManager.GetScenarioTime() > deadlineS) {
+                return rw.ConditionStatus.Failed;
+            } else {
+                return rw.ConditionStatus.NotYetMet;
+            }
+        };
+    }
+
+    /**
+     * Set the global callback functions to execute this scenario.
+     */
+    setup() {
+        OnEvent = event => {
+            this.eventSource.call(event);
+            return this.handledEvents.has(event) ? 1 : 0;
+        };
+        TestCondition = condition => {
+            const status = this.conditions.get(condition);
+            if (status === undefined) {
+                return rw.ConditionStatus.NotYetMet;
+            }
+            const result = frp.snapshot(status);
+            if (result !== rw.ConditionStatus.NotYetMet) {
+                this.conditions.delete(condition);
+            }
+            return result;
+        };
+    }
+}
@@ -0,0 +1,101 @@
+/** @noSelfInFile */
+
+import * as frp from "./frp";
+import { FrpEntity, FrpSource } from "./frp-entity";
+import * as rw from "./railworks";
+
+/**
+ * Represents an OnSignalMessage() event.
+ */
+export type SignalMessage = [
+    message: rw.SignalMessage | number,
+    argument: string,
+    direction: rw.SignalDirection,
+    linkIndex: number
+];
+
+/**
+ * Represents an OnConsistPass() event. Distances are positive when the end of
+ * the consist is in front of the link.
+ */
+export type ConsistPass = [
+    prevFrontDistM: number,
+    prevBackDistM: number,
+    frontDistM: number,
+    backDistM: number,
+    linkIndex: number
+];
+
+/**
+ * Represents an OnJunctionStateChange() event.
+ */
+export type JunctionStateChange = [
+    junctionState: number,
+    argument: string,
+    direction: rw.SignalDirection,
+    linkIndex: number
+];
+
+/**
+ * A signal is a scripted entity that exchanges messages with other signals and
+ * with passing consists.
+ */
+export class FrpSignal extends FrpEntity {
+    /**
+     * Convenient access to the methods for a signal.
+     */
+    public sig = new rw.Signal("");
+
+    private signalMessageSource = new FrpSource<SignalMessage>();
+    private consistPassSource = new FrpSource<ConsistPass>();
+    private junctionStateChangeSource = new FrpSource<JunctionStateChange>();
+
+    /**
+     * Construct a new signal.
+     * @param onInit The callback to run when the game calls Initialise().
+     */
+    constructor(onInit: () => void) {
+        super(onInit);
+    }
+
+    createOnSignalMessageStream() {
+        return this.signalMessageSource.createStream();
+    }
+
+    createOnConsistPassStream() {
+        return this.consistPassSource.createStream();
+    }
+
+    createOnJunctionStateChangeStream() {
+        return this.junctionStateChangeSource.createStream();
+    }
+
+    /**
+     * Create an event stream of signal messages received by a particular link.
+     * @param linkIndex The index of the link.
+     * @returns The new stream of messages.
+     */
+    createOnSignalMessageStreamFor(linkIndex: number): frp.Stream<SignalMessage> {
+        return frp.compose(
+            this.createOnSignalMessageStream(),
+            frp.filter(([, , , index]) => index === linkIndex)
+        );
+    }
+
+    setup() {
+        super.setup();
+
+        OnSignalMessage = (message, argument, direction, linkIndex) => {
+            this.nextTick();
+            this.signalMessageSource.call([message, argument, direction, linkIndex]);
+        };
+        OnConsistPass = (prevFrontDist, prevBackDist, frontDist, backDist, linkIndex) => {
+            this.nextTick();
+            this.consistPassSource.call([prevFrontDist, prevBackDist, frontDist, backDist, linkIndex]);
+        };
+        OnJunctionStateChange = (junctionState, argument, direction, linkIndex) => {
+            this.nextTick();
+            this.junctionStateChangeSource.call([junctionState, argument, direction, linkIndex]);
+        };
+    }
+}
@@ -19,6 +19,27 @@ export type PlayerUpdate = {
     isStopped: boolean;
     couplings: VehicleCouplings;
     doorsOpen: VehicleDoors;
+    /**
+     * The last sensed direction of travel of this rail vehicle.
+     */
+    direction: SensedDirection;
+    /**
+     * The end of the rail vehicle the player is driving from.
+     */
+    cabEnd: CabEnd;
+    /**
+     * The speed as seen from the occupied cab; positive is towards the cab's
+     * front window.
+     */
+    cabSpeedMps: number;
+    /**
+     * The acceleration as seen from the occupied cab.
+     */
+    cabAccelerationMps2: number;
+    /**
+     * The last sensed direction of travel as seen from the occupied cab.
+     */
+    cabDirection: SensedDirection;
 };
 
 export type AiUpdate = {
@@ -46,6 +67,19 @@ export enum SensedDirection {
     Forward,
 }
 
+/**
+ * An end of a rail vehicle that has a cab.
+ */
+export enum CabEnd {
+    Front,
+    Rear,
+}
+
+/**
+ * Represents a change of the occupied cab.
+ */
+export type CabChange = [from: CabEnd, to: CabEnd];
+
 /**
  * Represents an OnControlValueChange() event.
  */
@@ -56,6 +90,20 @@ export type ControlValueChange = [name: string, index: number, value: number];
  */
 export type ConsistMessage = [id: number, content: string, direction: rw.ConsistDirection];
 
+/**
+ * Identifies a control value by its name and index.
+ */
+export type ControlSlot = [name: string, index: number];
+
+/**
+ * Converts an accumulator to and from a list of numbers, one for each control
+ * value it is saved to.
+ */
+export type StateCodec<T> = {
+    encode: (accum: T) => number[];
+    decode: (values: number[]) => T;
+};
+
 /**
  * Represents the state of the camera view passed to OnCameraEnter() and
  * OnCameraLeave().
@@ -85,15 +133,22 @@ export class FrpVehicle extends FrpEntity {
      */
     public areControlsSettled: frp.Behavior<boolean> = () =>
         this.initTimeS === undefined ? false : this.e.GetSimulationTime() > this.initTimeS + 0.5;
+    /**
+     * A behavior that returns the end of the rail vehicle the player last
+     * entered a cab at. Leaving the cab does not change it.
+     */
+    public activeCabEnd: frp.Behavior<CabEnd> = () => this.cabEnd;
 
     private playerUpdateSource = new FrpSource<PlayerUpdate>();
     private aiUpdateSource = new FrpSource<AiUpdate>();
     private cvChangeSource = new FrpSource<ControlValueChange>();
     private consistMessageSource = new FrpSource<ConsistMessage>();
     private vehicleCameraSource = new FrpSource<VehicleCamera>();
+    private cabChangeSource = new FrpSource<CabChange>();
 
     private initTimeS: number | undefined = undefined;
     private direction = SensedDirection.None;
+    private cabEnd = CabEnd.Front;
     private aiCouplings: undefined | VehicleCouplings = undefined;
     private playerCouplings: [nextUpdateS: number, couplings: VehicleCouplings] = [0, [false, false]];
 
@@ -152,12 +207,27 @@ export class FrpVehicle extends FrpEntity {
                     (this.rv.GetControlValue("DoorsOpenCloseRight", 0) ?? 0) > 0.5,
                 ] as VehicleDoors;
 
+                // Normalize the physics to the occupied cab.
+                const isRearCab = this.cabEnd === CabEnd.Rear;
+                const cabSign = isRearCab ? -1 : 1;
+                let cabDirection = this.direction;
+                if (isRearCab && this.direction === SensedDirection.Forward) {
+                    cabDirection = SensedDirection.Backward;
+                } else if (isRearCab && this.direction === SensedDirection.Backward) {
+                    cabDirection = SensedDirection.Forward;
+                }
+
                 this.playerUpdateSource.call({
                     dt,
                     speedMps,
                     isStopped,
                     couplings,
                     doorsOpen,
+                    direction: this.direction,
+                    cabEnd: this.cabEnd,
+                    cabSpeedMps: cabSign * speedMps,
+                    cabAccelerationMps2: cabSign * this.rv.GetAcceleration(),
+                    cabDirection,
                 });
             } else {
                 // To save frames, don't update AI trains that are far away from the
@@ -198,6 +268,15 @@ export class FrpVehicle extends FrpEntity {
         return this.vehicleCameraSource.createStream();
     }
 
+    /**
+     * Create an event stream that fires when the player moves from one cab of
+     * this rail vehicle to the other.
+     * @returns The new stream of cab changes.
+     */
+    createOnCabChangeStream() {
+        return this.cabChangeSource.createStream();
+    }
+
     /**
      * Transform a player or AI update into a continuously updating stream of
      * controlvalues. Nil values are filtered out, so nonexistent controlvalues
@@ -266,7 +345,7 @@ export class FrpVehicle extends FrpEntity {
             return next => {
                 let accumulated = frp.snapshot(initial);
                 let firstRead = false;
-                eventStream(value => {
+                return eventStream(value => {
                     if (frp.snapshot(this.areControlsSettled) && firstRead) {
                         next((accumulated = step(accumulated, value)));
                     } else {
@@ -278,6 +357,54 @@ export class FrpVehicle extends FrpEntity {
         };
     }
 
+    /**
+     * Like the ordinary fold(), except the accumulator is written to a set of
+     * control values when the game is saved, and read back from them when the
+     * game is resumed. The restored accumulator takes effect on the first
+     * event after the controls have settled.
+     * @param step The fold function.
+     * @param initial The initial accumulator.
+     * @param codec Converts the accumulator to and from control values.
+     * @param slots The control values to save to. If empty, or if any of them
+     * do not exist, then nothing is restored.
+     * @returns A curried function that will produce the new event stream.
+     */
+    foldWithSave<TAccum, TValue>(
+        step: (accumulated: TAccum, value: TValue) => TAccum,
+        initial: TAccum,
+        codec: StateCodec<TAccum>,
+        slots: ControlSlot[]
+    ): (eventStream: frp.Stream<TValue>) => frp.Stream<TAccum> {
+        return eventStream => {
+            return next => {
+                let accumulated = initial;
+                let restored: number[] | undefined = undefined;
+                const disposeSave = this.createOnSaveStream()(() => {
+                    const values = codec.encode(accumulated);
+                    for (let i = 0; i < slots.length; i++) {
+                        const [name, index] = slots[i];
+                        this.rv.SetControlValue(name, index, values[i] ?? 0);
+                    }
+                });
+                const disposeResume = this.createOnResumeStream()(() => {
+                    restored = readSlots(this.rv, slots);
+                });
+                const disposeEvents = eventStream(value => {
+                    if (restored !== undefined && frp.snapshot(this.areControlsSettled)) {
+                        accumulated = codec.decode(restored);
+                        restored = undefined;
+                    }
+                    next((accumulated = step(accumulated, value)));
+                });
+                return () => {
+                    disposeEvents();
+                    disposeSave();
+                    disposeResume();
+                };
+            };
+        };
+    }
+
     /**
      * Transform any event stream into a stream that produces false, unless the
      * original stream produces an event, in which case it produces true for a
@@ -308,12 +435,15 @@ export class FrpVehicle extends FrpEntity {
         super.setup();
 
         OnControlValueChange = (name, index, value) => {
+            this.nextTick();
             this.cvChangeSource.call([name, index, value]);
         };
         OnConsistMessage = (id, content, dir) => {
+            this.nextTick();
             this.consistMessageSource.call([id, content, dir]);
         };
         OnCameraEnter = (cabEnd, carriageCam) => {
+            this.nextTick();
             let vc;
             if (carriageCam === rw.CameraEnterView.Cab) {
                 vc = cabEnd === rw.CameraEnterCabEnd.Rear ? VehicleCamera.RearCab : VehicleCamera.FrontCab;
@@ -321,9 +451,34 @@ export class FrpVehicle extends FrpEntity {
                 vc = VehicleCamera.Carriage;
             }
             this.vehicleCameraSource.call(vc);
+
+            if (carriageCam === rw.CameraEnterView.Cab) {
+                const from = this.cabEnd;
+                const to = cabEnd === rw.CameraEnterCabEnd.Rear ? CabEnd.Rear : CabEnd.Front;
+                if (from !== to) {
+                    this.cabEnd = to;
+                    this.cabChangeSource.call([from, to]);
+                }
+            }
         };
         OnCameraLeave = () => {
+            this.nextTick();
             this.vehicleCameraSource.call(VehicleCamera.Outside);
         };
     }
 }
+
+function readSlots(rv: rw.RailVehicle, slots: ControlSlot[]) {
+    if (slots.length === 0) {
+        return undefined;
+    }
+    let values: number[] = [];
+    for (const [name, index] of slots) {
+        const value = rv.GetControlValue(name, index);
+        if (value === undefined) {
+            return undefined;
+        }
+        values.push(value);
+    }
+    return values;
+}
@@ -6,8 +6,13 @@
 
 import * as rw from "./railworks";
 
-export type Stream<T> = (next: (value: T) => void) => void;
+export type Stream<T> = (next: (value: T) => void) => Unsubscribe;
 export type Behavior<T> = (() => T) | T;
+/**
+ * Cancels a subscription to an event stream. Calling it more than once has no
+ * further effect.
+ */
+export type Unsubscribe = () => void;
 
 const e = new rw.ScriptedEntity("");
 
@@ -18,7 +23,7 @@ const e = new rw.ScriptedEntity("");
 export function map<T, U>(valueTransform: (value: T) => U): (eventStream: Stream<T>) => Stream<U> {
     return function (eventStream) {
         return function (next) {
-            eventStream(function (value) {
+            return eventStream(function (value) {
                 next(valueTransform(value));
             });
         };
@@ -27,14 +32,24 @@ export function map<T, U>(valueTransform: (value: T) => U): (eventStream: Stream
 
 /**
  * Binds an eventStream to a new EventStream. Function valueToEvent is called
- * with the event value. Returns a new Event Stream.
+ * with the event value. Returns a new Event Stream. Every inner stream keeps
+ * forwarding its events until the returned stream is unsubscribed; see
+ * switchMap in frp-extra to follow only the most recent one.
  */
 export function bind<T, U>(valueToEvent: (value: T) => Stream<U>): (eventStream: Stream<T>) => Stream<U> {
     return function (eventStream) {
         return function (next) {
-            eventStream(function (value) {
-                valueToEvent(value)(next);
+            let inners: Unsubscribe[] = [];
+            const outer = eventStream(function (value) {
+                inners.push(valueToEvent(value)(next));
             });
+            return function () {
+                outer();
+                for (const inner of inners) {
+                    inner();
+                }
+                inners = [];
+            };
         };
     };
 }
@@ -45,7 +60,7 @@ export function bind<T, U>(valueToEvent: (value: T) => Stream<U>): (eventStream:
 export function filter<T>(predicate: (value: T) => boolean): (eventStream: Stream<T>) => Stream<T> {
     return function (eventStream) {
         return function (next) {
-            eventStream(function (value) {
+            return eventStream(function (value) {
                 if (predicate(value)) {
                     next(value);
                 }
@@ -60,7 +75,7 @@ export function filter<T>(predicate: (value: T) => boolean): (eventStream: Strea
 export function reject<T>(predicate: (value: T) => boolean): (eventStream: Stream<T>) => Stream<T> {
     return function (eventStream) {
         return function (next) {
-            eventStream(function (value) {
+            return eventStream(function (value) {
                 if (!predicate(value)) {
                     next(value);
                 }
@@ -81,7 +96,7 @@ export function fold<TAccum, TValue>(
     return function (eventStream) {
         return function (next) {
             let accumulated = initial;
-            eventStream(function (value) {
+            return eventStream(function (value) {
                 next((accumulated = step(accumulated, value)));
             });
         };
@@ -94,8 +109,12 @@ export function fold<TAccum, TValue>(
 export function merge<A, B>(eventStreamA: Stream<A>): (eventStreamB: Stream<B>) => Stream<A | B> {
     return function (eventStreamB) {
         return function (next) {
-            eventStreamA(value => next(value));
-            eventStreamB(value => next(value));
+            const a = eventStreamA(value => next(value));
+            const b = eventStreamB(value => next(value));
+            return function () {
+                a();
+                b();
+            };
         };
     };
 }
@@ -174,15 +193,30 @@ export function compose(
  * Returns a behaviour. Call the behaviour for the last value of the event.
  */
 export function stepper<T>(eventStream: Stream<T>, initial: T): Behavior<T> {
+    const [behavior] = disposableStepper(eventStream, initial);
+    return behavior;
+}
+
+/**
+ * Like stepper(), but also returns a function that stops recording the event
+ * stream. The behavior keeps its last value after disposal.
+ */
+export function disposableStepper<T>(
+    eventStream: Stream<T>,
+    initial: T
+): [behavior: Behavior<T>, dispose: Unsubscribe] {
     let valueAtLastStep = initial;
 
-    eventStream(function nextStep(value) {
+    const dispose = eventStream(function nextStep(value) {
         valueAtLastStep = value;
     });
 
-    return function behaveAtLastStep() {
-        return valueAtLastStep;
-    };
+    return [
+        function behaveAtLastStep() {
+            return valueAtLastStep;
+        },
+        dispose,
+    ];
 }
 
 /**
@@ -195,7 +229,7 @@ export function throttle<T>(ms: number): (eventStream: Stream<T>) => Stream<T> {
     return function (eventStream) {
         return function (next) {
             let last = 0;
-            eventStream(function (value) {
+            return eventStream(function (value) {
                 let now = e.GetSimulationTime() * 1000;
                 if (last === 0 || now - last > ms) {
                     next(value);
@@ -206,6 +240,27 @@ export function throttle<T>(ms: number): (eventStream: Stream<T>) => Stream<T> {
     };
 }
 
+/**
+ * Cache the value of a behavior until a clock behavior changes, so that every
+ * read within the same tick sees the same value and the behavior's
+ * dependencies are evaluated only once per tick.
+ */
+export function memoize<T>(behavior: Behavior<T>, tick: Behavior<number>): Behavior<T> {
+    if (typeof behavior !== "function") {
+        return behavior;
+    }
+    let cachedTick: number | undefined = undefined;
+    let cached: T | undefined = undefined;
+    return function () {
+        const now = snapshot(tick);
+        if (now !== cachedTick) {
+            cached = snapshot(behavior);
+            cachedTick = now;
+        }
+        return cached as T;
+    };
+}
+
 export function snapshot<T>(behavior: Behavior<T>): T {
     if (typeof behavior === "function") {
         return (behavior as () => T)();
@@ -273,19 +328,35 @@ export function liftN<T>(combine: (...args: any[]) => T, ...behaviors: Behavior<
     };
 }
 
+/**
+ * Shares a single subscription to an event stream among many subscribers. The
+ * upstream subscription is made for the first subscriber and cancelled when
+ * the last one unsubscribes, so any state it holds is reset.
+ */
 export function hub<T>(): (eventStream: Stream<T>) => Stream<T> {
     return function (eventStream) {
-        let nexts: ((value: T) => void)[] = [];
-        let isStarted = false;
+        // Wrap each callback so that the same function can subscribe twice.
+        let nexts = new Set<(value: T) => void>();
+        let upstream: Unsubscribe | undefined = undefined;
 
         return function (next) {
-            nexts.push(next);
-            if (!isStarted) {
-                eventStream(function (value) {
-                    nexts.forEach(next => next(value));
+            const entry = (value: T) => next(value);
+            nexts.add(entry);
+            if (upstream === undefined) {
+                upstream = eventStream(function (value) {
+                    for (const n of nexts) {
+                        n(value);
+                    }
                 });
-                isStarted = true;
             }
+            return function () {
+                nexts.delete(entry);
+                if (nexts.size === 0 && upstream !== undefined) {
+                    const dispose = upstream;
+                    upstream = undefined;
+                    dispose();
+                }
+            };
         };
     };
 }
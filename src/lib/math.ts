@@ -38,3 +38,34 @@ function getDigitsRecursivelyB(n: number, width: number): number[] {
         return rest;
     }
 }
+
+/**
+ * A piecewise-linear function, given as points sorted by their x values.
+ */
+export type Curve = [x: number, y: number][];
+
+/**
+ * Evaluate a piecewise-linear function. Values beyond either end of the curve
+ * are held at the first or last point.
+ * @param curve The points of the function. Must not be empty.
+ * @param x The input value.
+ * @returns The output value.
+ */
+export function interpolate(curve: Curve, x: number): number {
+    if (curve.length === 0) {
+        throw "curve must have at least one point";
+    }
+    const [x0, y0] = curve[0];
+    if (x <= x0) {
+        return y0;
+    }
+    for (let i = 1; i < curve.length; i++) {
+        const [xa, ya] = curve[i - 1];
+        const [xb, yb] = curve[i];
+        if (x <= xb) {
+            return xb === xa ? yb : ya + ((yb - ya) * (x - xa)) / (xb - xa);
+        }
+    }
+    const [, yn] = curve[curve.length - 1];
+    return yn;
+}
@@ -0,0 +1,124 @@
+/** @noSelfInFile */
+/**
+ * Power collection subsystem for electric multiple units that can draw from
+ * third-rail shoes, a pantograph, or both.
+ *
+ * The game does not tell scripts which kind of electrification the track has,
+ * so the engine script supplies a default for the route it was built for, and
+ * routes mark any change with a signal that sends one of these custom messages
+ * to passing trains:
+ *
+ * - "ElecThirdRail": third rail only.
+ * - "ElecOverhead": overhead wire only.
+ * - "ElecDual": both third rail and overhead wire.
+ * - "ElecNone": no power, such as at a gap or on unelectrified track.
+ *
+ * A message applies from the signal onward, until the next one changes it.
+ */
+
+import * as frp from "./frp";
+import { FrpEngine } from "./frp-engine";
+import { rejectUndefined } from "./frp-extra";
+import { PlayerUpdate } from "./frp-vehicle";
+
+export type PowerState = {
+    /**
+     * Whether the third-rail shoes are lowered onto the rail.
+     */
+    shoes: boolean;
+    /**
+     * Whether the pantograph is raised. Like the shoes, it stays in place
+     * when the unit is keyed out.
+     */
+    pantograph: boolean;
+    /**
+     * True if the unit is keyed in, but neither collector is touching a live
+     * source.
+     */
+    gap: boolean;
+    /**
+     * True if the unit is keyed in and drawing power.
+     */
+    hasPower: boolean;
+};
+
+/**
+ * The power source the engineer has selected.
+ */
+export enum CollectionMode {
+    ThirdRail,
+    Overhead,
+    /**
+     * Use whichever sources the track provides.
+     */
+    Auto,
+}
+
+/**
+ * The power sources available on a section of track.
+ */
+export type Electrification = { thirdRail: boolean; overhead: boolean };
+
+/**
+ * Electrification for routes that have both kinds of power sources, or that
+ * have not been configured.
+ */
+export const dualElectrification: Electrification = { thirdRail: true, overhead: true };
+
+/**
+ * Attempt to read a change of electrification from a custom signal message.
+ * @param signalMessage The custom signal message.
+ * @returns The new electrification, if the message describes one.
+ */
+export function toElectrification(signalMessage: string): Electrification | undefined {
+    const [, , kind] = string.find(signalMessage, "^Elec(%a+)$");
+    if (kind === "ThirdRail") {
+        return { thirdRail: true, overhead: false };
+    } else if (kind === "Overhead") {
+        return { thirdRail: false, overhead: true };
+    } else if (kind === "Dual") {
+        return dualElectrification;
+    } else if (kind === "None") {
+        return { thirdRail: false, overhead: false };
+    } else {
+        return undefined;
+    }
+}
+
+/**
+ * Create a new power collection instance.
+ * @param e The player's engine.
+ * @param mode A behavior that indicates the selected collection mode.
+ * @param keyIn A behavior that indicates the unit is keyed in.
+ * @param routeElectrification The electrification of the route, which applies
+ * until a signal message changes it.
+ * @returns An event stream that commmunicates all state for this system.
+ */
+export function create(
+    e: FrpEngine,
+    mode: frp.Behavior<CollectionMode>,
+    keyIn: frp.Behavior<boolean>,
+    routeElectrification: Electrification = dualElectrification
+): frp.Stream<PowerState> {
+    const electrification$ = frp.compose(
+        e.createOnSignalMessageStream(),
+        frp.map(msg => toElectrification(msg)),
+        rejectUndefined()
+    );
+
+    return frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.map((_: PlayerUpdate): Electrification | undefined => undefined),
+        frp.merge(electrification$),
+        frp.fold<Electrification, Electrification | undefined>((accum, elec) => elec ?? accum, routeElectrification),
+        frp.map((elec): PowerState => {
+            const theMode = frp.snapshot(mode);
+            const isKeyIn = frp.snapshot(keyIn);
+            const shoes = theMode === CollectionMode.ThirdRail || (theMode === CollectionMode.Auto && elec.thirdRail);
+            const pantograph =
+                theMode === CollectionMode.Overhead || (theMode === CollectionMode.Auto && elec.overhead);
+            const live = (shoes && elec.thirdRail) || (pantograph && elec.overhead);
+            return { shoes, pantograph, gap: isKeyIn && !live, hasPower: isKeyIn && live };
+        })
+    );
+}
@@ -1128,6 +1128,32 @@ export const CameraManager = {
     },
 };
 
+/**
+ * The player's engine, as seen from a scenario script.
+ */
+export const PlayerEngine = {
+    /**
+     * Get a control value from the player's engine.
+     * @param name The name of the control.
+     * @param index The index of the control, usually 0.
+     * @returns The value of the control, or nil if it does not exist.
+     */
+    GetControlValue(name: string, index: number) {
+        const [r] = SysCall("PlayerEngine:GetControlValue", name, index);
+        return r as number | undefined;
+    },
+
+    /**
+     * Set a control value on the player's engine.
+     * @param name The name of the control.
+     * @param index The index of the control, usually 0.
+     * @param value The value to set the control to.
+     */
+    SetControlValue(name: string, index: number, value: number) {
+        SysCall("PlayerEngine:SetControlValue", name, index, value);
+    },
+};
+
 /**
  * Signals have access to the signalling functions.
  */
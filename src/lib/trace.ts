@@ -0,0 +1,255 @@
+/** @noSelfInFile */
+/**
+ * Session recorder that logs everything a script sees to LogMate, so that a
+ * session can be replayed offline against the same script.
+ *
+ * To record, call record() after setup(). Every callback the game makes is
+ * printed as a line that begins with the trace prefix, followed by a JSON
+ * array of the event type, the callback arguments, and the results of any
+ * Call() and SysCall() reads that changed while the script handled it. Each
+ * result is recorded as the number of values returned and an array of the
+ * values, because Lua 5.0 tables don't preserve trailing nils.
+ */
+
+export const tracePrefix = "TRACE ";
+
+export enum TraceEventType {
+    Initialise,
+    Update,
+    ControlValueChange,
+    SignalMessage,
+    ConsistMessage,
+    CameraEnter,
+    CameraLeave,
+    Save,
+    Resume,
+}
+
+export type TraceValue = string | number | boolean | undefined;
+
+/**
+ * The values returned by a single Call() or SysCall() invocation, along with
+ * their number, which includes any missing values.
+ */
+export type TraceResult = [count: number, values: TraceValue[]];
+
+/**
+ * The results of all reads of a function and its arguments during a callback,
+ * in the order they were made.
+ */
+export type TraceReads = { [key: string]: TraceResult[] };
+
+export type TraceEvent = [
+    type: TraceEventType,
+    args: (string | number | boolean)[],
+    calls: TraceReads,
+    sysCalls: TraceReads
+];
+
+/**
+ * Identifies a read by its function name and arguments.
+ * @param fn The name of the function.
+ * @param args The arguments passed to the function.
+ * @returns The key for this read.
+ */
+export function toReadKey(fn: string, args: (string | number | boolean)[]) {
+    let key = fn;
+    for (const arg of args) {
+        key += `|${arg}`;
+    }
+    return key;
+}
+
+/**
+ * Test whether two read results are the same.
+ */
+export function isSameResult(a: TraceResult, b: TraceResult) {
+    const [countA, valuesA] = a;
+    const [countB, valuesB] = b;
+    if (countA !== countB) {
+        return false;
+    }
+    for (let i = 0; i < countA; i++) {
+        if (valuesA[i] !== valuesB[i]) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Wrap the script's callbacks and the game's Call() and SysCall() functions to
+ * print a trace of the session.
+ *
+ * A read is only recorded if any of its results differ from the last recorded
+ * result for the same function and arguments. A replay should serve the
+ * recorded results in order, and otherwise keep serving the last one.
+ */
+export function record() {
+    const callLog = new ReadLog();
+    const sysCallLog = new ReadLog();
+
+    const call = Call;
+    globalThis.Call = (fn, ...args) => {
+        const results = pack(...call(fn, ...args));
+        callLog.read(toReadKey(fn, args), [results.length, results]);
+        return $multi(...results);
+    };
+    const sysCall = SysCall;
+    globalThis.SysCall = (fn, ...args) => {
+        const results = pack(...sysCall(fn, ...args));
+        sysCallLog.read(toReadKey(fn, args), [results.length, results]);
+        return $multi(...results);
+    };
+
+    const traced = (type: TraceEventType, args: (string | number | boolean)[], callback: () => void) => {
+        callback();
+        Print(tracePrefix, encodeEvent([type, args, callLog.flush(), sysCallLog.flush()]));
+    };
+
+    const onInit = Initialise;
+    Initialise = () => traced(TraceEventType.Initialise, [], () => onInit());
+    const onUpdate = Update;
+    Update = dt => traced(TraceEventType.Update, [dt], () => onUpdate(dt));
+    const onCvChange = OnControlValueChange;
+    if (onCvChange !== undefined) {
+        OnControlValueChange = (name, index, value) =>
+            traced(TraceEventType.ControlValueChange, [name, index, value], () => onCvChange(name, index, value));
+    }
+    const onSignalMessage = OnCustomSignalMessage;
+    if (onSignalMessage !== undefined) {
+        OnCustomSignalMessage = msg => traced(TraceEventType.SignalMessage, [msg], () => onSignalMessage(msg));
+    }
+    const onConsistMessage = OnConsistMessage;
+    if (onConsistMessage !== undefined) {
+        OnConsistMessage = (id, content, dir) =>
+            traced(TraceEventType.ConsistMessage, [id, content, dir], () => onConsistMessage(id, content, dir));
+    }
+    const onCameraEnter = OnCameraEnter;
+    if (onCameraEnter !== undefined) {
+        OnCameraEnter = (cabEnd, carriageCam) =>
+            traced(TraceEventType.CameraEnter, [cabEnd, carriageCam], () => onCameraEnter(cabEnd, carriageCam));
+    }
+    const onCameraLeave = OnCameraLeave;
+    if (onCameraLeave !== undefined) {
+        OnCameraLeave = () => traced(TraceEventType.CameraLeave, [], () => onCameraLeave());
+    }
+    const onSave = OnSave;
+    OnSave = () => traced(TraceEventType.Save, [], () => onSave());
+    const onResume = OnResume;
+    OnResume = () => traced(TraceEventType.Resume, [], () => onResume());
+}
+
+/**
+ * Collect a function's return values into a table. Unlike a table
+ * constructor, Lua 5.0's vararg table records how many values there were,
+ * including nils.
+ */
+function pack(...values: TraceValue[]) {
+    return values;
+}
+
+/**
+ * Collects the reads made during a single callback.
+ */
+class ReadLog {
+    private last = new Map<string, TraceResult>();
+    private current = new Map<string, TraceResult[]>();
+
+    read(key: string, result: TraceResult) {
+        const results = this.current.get(key);
+        if (results !== undefined) {
+            results.push(result);
+        } else {
+            this.current.set(key, [result]);
+        }
+    }
+
+    /**
+     * Drop reads that match the last recorded result and return the rest.
+     */
+    flush() {
+        let reads: TraceReads = {};
+        for (const [key, results] of this.current) {
+            const last = this.last.get(key) ?? [0, []];
+            let changed = false;
+            for (const result of results) {
+                if (!isSameResult(result, last)) {
+                    changed = true;
+                    break;
+                }
+            }
+            if (changed) {
+                reads[key] = results;
+                this.last.set(key, results[results.length - 1]);
+            }
+        }
+        this.current = new Map();
+        return reads;
+    }
+}
+
+function encodeEvent(event: TraceEvent) {
+    const [type, args, calls, sysCalls] = event;
+    return `[${type},${encodeArray(args)},${encodeReads(calls)},${encodeReads(sysCalls)}]`;
+}
+
+function encodeReads(reads: TraceReads) {
+    let fields: string[] = [];
+    for (const key in reads) {
+        let results: string[] = [];
+        for (const [count, values] of reads[key]) {
+            results.push(`[${count},${encodeArray(values, count)}]`);
+        }
+        fields.push(`${encodeString(key)}:[${results.join(",")}]`);
+    }
+    return `{${fields.join(",")}}`;
+}
+
+function encodeArray(values: TraceValue[], count: number = values.length) {
+    let encoded: string[] = [];
+    for (let i = 0; i < count; i++) {
+        encoded.push(encodeValue(values[i]));
+    }
+    return `[${encoded.join(",")}]`;
+}
+
+function encodeValue(value: string | number | boolean | undefined) {
+    if (typeof value === "string") {
+        return encodeString(value);
+    } else if (typeof value === "number") {
+        // JSON has no representation for infinities or NaN.
+        return value === value && value !== Infinity && value !== -Infinity ? `${value}` : "null";
+    } else if (typeof value === "boolean") {
+        return value ? "true" : "false";
+    } else {
+        return "null";
+    }
+}
+
+const escapes: { [c: string]: string } = {
+    '"': '\\"',
+    "\\": "\\\\",
+    "\b": "\\b",
+    "\f": "\\f",
+    "\n": "\\n",
+    "\r": "\\r",
+    "\t": "\\t",
+};
+
+const hexDigits = "0123456789abcdef";
+
+function encodeString(s: string) {
+    const [escaped] = string.gsub(s, '[%c"\\]', c => escapes[c] ?? escapeCodePoint(c));
+    return `"${escaped}"`;
+}
+
+/**
+ * Escape a control character that has no short JSON escape sequence.
+ */
+function escapeCodePoint(c: string) {
+    const code = string.byte(c);
+    const high = string.sub(hexDigits, Math.floor(code / 16) + 1, Math.floor(code / 16) + 1);
+    const low = string.sub(hexDigits, (code % 16) + 1, (code % 16) + 1);
+    return `\\u00${high}${low}`;
+}
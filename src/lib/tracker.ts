@@ -0,0 +1,228 @@
+/** @noSelfInFile */
+/**
+ * Tracks objects that the simulator can only sense by distance, such as speed
+ * posts and signals, and reports when the rail vehicle approaches, passes and
+ * leaves them behind.
+ */
+
+import * as frp from "./frp";
+
+/**
+ * Distance traveled since the last search along with a collection of
+ * statelessly sensed objects.
+ */
+export type Reading<T> = [traveledM: number, sensed: Sensed<T>[]];
+/**
+ * A distance relative to the rail vehicle along with the object sensed.
+ */
+export type Sensed<T> = [distanceM: number, object: T];
+
+/**
+ * Tuning parameters for the tracker.
+ */
+export type TrackerParameters = {
+    /**
+     * The furthest distance an object may be dead reckoned through the
+     * passing zone before it is forgotten. This should be a bit longer than
+     * the rail vehicle.
+     */
+    maxPassingM: number;
+    /**
+     * The maximum discrepancy between an object's inferred and sensed
+     * distances for it to be recognized as the same object.
+     */
+    senseMarginM: number;
+};
+
+/**
+ * Parameters suitable for an 85 ft rail vehicle.
+ */
+export const defaultParameters: TrackerParameters = {
+    maxPassingM: 28.5, // 1.1*85 ft
+    senseMarginM: 4,
+};
+
+export enum TrackerEventType {
+    /**
+     * An object was sensed for the first time.
+     */
+    Enter,
+    /**
+     * The rail vehicle passed an object, in either direction.
+     */
+    Pass,
+    /**
+     * An object can no longer be sensed or inferred.
+     */
+    Leave,
+}
+
+export type TrackerEvent<T> = { type: TrackerEventType; id: number; distanceM: number; object: T };
+
+type TrackerAccum<T> = { counter: number; sensed: Map<number, Sensed<T>>; passing: Map<number, Sensed<T>> };
+
+/**
+ * Tags objects that can only be sensed by distance statelessly with
+ * persistent ID's.
+ *
+ * Track objects will briefly disappear before they reappear in the reverse
+ * direction - the exact distance is possibly the locomotive length? We call
+ * this area the "passing" zone.
+ *
+ * d < 0|invisible|d > 0
+ * ---->|_________|<----
+ *
+ * @param params The tuning parameters to use.
+ * @param reset A behavior that can be used to reset this tracker.
+ * @returns An stream of mappings from unique identifier to sensed object.
+ */
+export function indexObjectsSensedByDistance<T>(
+    params: TrackerParameters,
+    reset: frp.Behavior<boolean>
+): (eventStream: frp.Stream<Reading<T>>) => frp.Stream<Map<number, Sensed<T>>> {
+    const { maxPassingM, senseMarginM } = params;
+    return eventStream => {
+        const accumStart: TrackerAccum<T> = {
+            counter: -1,
+            sensed: new Map(),
+            passing: new Map(),
+        };
+        return frp.compose(
+            eventStream,
+            frp.fold<TrackerAccum<T>, Reading<T>>((accum, reading) => {
+                if (frp.snapshot(reset)) {
+                    return accumStart;
+                }
+
+                const [traveledM, objects] = reading;
+                let counter = accum.counter;
+                let sensed = new Map<number, Sensed<T>>();
+                let passing = new Map<number, Sensed<T>>();
+                for (const [distanceM, obj] of objects) {
+                    // There's no continue in Lua 5.0, but we do have break...
+                    while (true) {
+                        // First, try to match a sensed object with a previously sensed
+                        // object.
+                        const bestSensed = bestScoreOfMapEntries(accum.sensed, (id, [sensedDistanceM]) => {
+                            if (sensed.has(id)) {
+                                return undefined;
+                            } else {
+                                const inferredM = sensedDistanceM - traveledM;
+                                const differenceM = Math.abs(inferredM - distanceM);
+                                return differenceM > senseMarginM ? undefined : -differenceM;
+                            }
+                        });
+                        if (bestSensed !== undefined) {
+                            sensed.set(bestSensed, [distanceM, obj]);
+                            break;
+                        }
+
+                        // Next, try to match with a passing object.
+                        let bestPassing: number | undefined;
+                        if (distanceM <= 0 && distanceM > -senseMarginM) {
+                            bestPassing = bestScoreOfMapEntries(accum.passing, (id, [passingDistanceM]) => {
+                                const inferredM = passingDistanceM - traveledM;
+                                return sensed.has(id) ? undefined : -inferredM;
+                            });
+                        } else if (distanceM >= 0 && distanceM < senseMarginM) {
+                            bestPassing = bestScoreOfMapEntries(accum.passing, (id, [passingDistanceM]) => {
+                                const inferredM = passingDistanceM - traveledM;
+                                return sensed.has(id) ? undefined : inferredM;
+                            });
+                        }
+                        if (bestPassing !== undefined) {
+                            sensed.set(bestPassing, [distanceM, obj]);
+                            break;
+                        }
+
+                        // If neither strategy matched, then this is a new object.
+                        sensed.set(++counter, [distanceM, obj]);
+                        break;
+                    }
+                }
+
+                // Cull objects in the passing zone that have exceeded the
+                // maximum passing distance.
+                for (const [id, [distanceM, obj]] of accum.passing) {
+                    if (!sensed.has(id)) {
+                        const inferredM = distanceM - traveledM;
+                        if (Math.abs(inferredM) <= maxPassingM) {
+                            passing.set(id, [inferredM, obj]);
+                            sensed.set(id, [inferredM, obj]);
+                        }
+                    }
+                }
+
+                // Add back objects that haven't been matched to anything
+                // else and are in the passing zone.
+                for (const [id, [distanceM, obj]] of accum.sensed) {
+                    if (!sensed.has(id) && !passing.has(id)) {
+                        const inferredM = distanceM - traveledM;
+                        if (Math.abs(inferredM) <= maxPassingM) {
+                            passing.set(id, [inferredM, obj]);
+                            sensed.set(id, [inferredM, obj]);
+                        }
+                    }
+                }
+
+                return { counter: counter, sensed: sensed, passing: passing };
+            }, accumStart),
+            frp.map(accum => accum.sensed)
+        );
+    };
+}
+
+/**
+ * Compares successive indices of tracked objects and reports the objects that
+ * have entered, been passed, or left.
+ * @returns A stream of tracker events.
+ */
+export function mapTrackerEvents<T>(): (
+    eventStream: frp.Stream<Map<number, Sensed<T>>>
+) => frp.Stream<TrackerEvent<T>> {
+    return eventStream => next => {
+        let last = new Map<number, Sensed<T>>();
+        return eventStream(index => {
+            for (const [id, [distanceM, object]] of index) {
+                const before = last.get(id);
+                if (before === undefined) {
+                    next({ type: TrackerEventType.Enter, id, distanceM, object });
+                } else {
+                    const [beforeM] = before;
+                    if ((beforeM > 0 && distanceM <= 0) || (beforeM < 0 && distanceM >= 0)) {
+                        next({ type: TrackerEventType.Pass, id, distanceM, object });
+                    }
+                }
+            }
+            for (const [id, [distanceM, object]] of last) {
+                if (!index.has(id)) {
+                    next({ type: TrackerEventType.Leave, id, distanceM, object });
+                }
+            }
+            last = index;
+        });
+    };
+}
+
+/**
+ * Score the entries of a map and return the best-scoring one.
+ * @param map The map to search.
+ * @param score A function that scores an entry in a map. It may also return
+ * undefined, in which case this entry will be excluded.
+ * @returns The highest-scoring key, if any.
+ */
+export function bestScoreOfMapEntries<K, V>(
+    map: Map<K, V>,
+    score: (key: K, value: V) => number | undefined
+): K | undefined {
+    let best: K | undefined = undefined;
+    let bestScore: number | undefined = undefined;
+    for (const [k, v] of map) {
+        const s = score(k, v);
+        if (s !== undefined && (bestScore === undefined || s > bestScore)) {
+            best = k;
+            bestScore = s;
+        }
+    }
+    return best;
+}
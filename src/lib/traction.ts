@@ -0,0 +1,251 @@
+/** @noSelfInFile */
+/**
+ * Traction and dynamic brake model.
+ *
+ * Converts the engineer's power and brake demands into the Regulator,
+ * DynamicBrake, and TrainBrakeControl values the blueprint's physics expect,
+ * accounting for the available effort at the current speed, the motor current
+ * limit, jerk limiting, and the blending of dynamic and friction brakes.
+ * Power demand is jerk-limited only as it rises, so that brake applications,
+ * interlocks and the loss of power cut it immediately.
+ */
+
+import * as frp from "./frp";
+import { FrpEngine } from "./frp-engine";
+import { PlayerUpdate } from "./frp-vehicle";
+import { Curve, interpolate } from "./math";
+
+/**
+ * Describes the traction and braking characteristics of a vehicle.
+ */
+export type TractionModel = {
+    /**
+     * The Regulator setting by power demand, with a separate curve for each
+     * speed range. Each entry applies from its speed in m/s up to the speed of
+     * the next one.
+     */
+    tractiveEffort: [speedMps: number, effort: Curve][];
+    /**
+     * The motor current drawn at a Regulator setting of 1, in A.
+     */
+    fullEffortA: number;
+    /**
+     * The maximum motor current, in A, if the motors are current-limited
+     * below full effort.
+     */
+    currentLimitA?: number;
+    /**
+     * The share of braking effort the dynamic brakes can provide, from 0 to 1,
+     * by speed in m/s. The friction brakes make up the rest.
+     */
+    dynamicShare: Curve;
+    /**
+     * The DynamicBrake settings for minimum and full service.
+     */
+    dynamicService: [min: number, max: number];
+    /**
+     * The TrainBrakeControl settings for minimum and full service.
+     */
+    frictionService: [min: number, max: number];
+    /**
+     * The TrainBrakeControl setting held while the dynamic brakes are in use.
+     */
+    frictionHold: number;
+    /**
+     * The maximum rate of increase of the Regulator setting, per second. Power
+     * is always cut at once.
+     */
+    powerJerkLimitPerS: number;
+    /**
+     * The maximum rate of change of the DynamicBrake setting, per second.
+     */
+    brakeJerkLimitPerS: number;
+    /**
+     * The number of units the blueprint's dynamic brake physics are calibrated
+     * for.
+     */
+    calibratedUnits: number;
+};
+
+/**
+ * The engineer's demands, from 0 to 1.
+ */
+export type TractionDemand = { power: number; brake: number };
+
+export type TractionState = {
+    regulator: number;
+    dynamicBrake: number;
+    trainBrake: number;
+    /**
+     * The proportion of full service braking in effect, from 0 to 1, while
+     * the dynamic brakes ramp up to the demand.
+     */
+    brakeEffort: number;
+};
+
+/**
+ * The jerk-limited Regulator and DynamicBrake settings, before the consist
+ * length adjustment.
+ */
+export type TractionAccum = { regulator: number; dynamicBrake: number };
+
+/**
+ * Compute the Regulator setting for a power demand, before jerk limiting.
+ * @param model The traction model.
+ * @param power The power demand, from 0 to 1.
+ * @param speedMps The current speed.
+ * @returns The Regulator setting.
+ */
+export function regulatorSetting(model: TractionModel, power: number, speedMps: number) {
+    if (power <= 0) {
+        return 0;
+    }
+    let [, effort] = model.tractiveEffort[0];
+    for (const [fromMps, curve] of model.tractiveEffort) {
+        if (Math.abs(speedMps) >= fromMps) {
+            effort = curve;
+        }
+    }
+    const currentLimit = model.currentLimitA === undefined ? 1 : model.currentLimitA / model.fullEffortA;
+    return Math.max(Math.min(interpolate(effort, power), currentLimit, 1), 0);
+}
+
+/**
+ * Compute the DynamicBrake setting for a brake demand, before jerk limiting and
+ * consist length adjustment.
+ * @param model The traction model.
+ * @param brake The brake demand, from 0 to 1.
+ * @param speedMps The current speed.
+ * @returns The DynamicBrake setting.
+ */
+export function dynamicBrakeSetting(model: TractionModel, brake: number, speedMps: number) {
+    if (brake <= 0) {
+        return 0;
+    }
+    const share = interpolate(model.dynamicShare, Math.abs(speedMps));
+    return share * lerp(model.dynamicService, brake);
+}
+
+/**
+ * Compute the TrainBrakeControl setting for a brake demand, which makes up
+ * whatever effort the dynamic brakes cannot provide.
+ * @param model The traction model.
+ * @param brake The brake demand, from 0 to 1.
+ * @param speedMps The current speed.
+ * @returns The TrainBrakeControl setting.
+ */
+export function frictionBrakeSetting(model: TractionModel, brake: number, speedMps: number) {
+    if (brake <= 0) {
+        return 0;
+    }
+    const share = interpolate(model.dynamicShare, Math.abs(speedMps));
+    return Math.max((1 - share) * lerp(model.frictionService, brake), model.frictionHold);
+}
+
+/**
+ * Advance the jerk-limited settings by one update.
+ * @param model The traction model.
+ * @param accum The previous settings.
+ * @param demand The engineer's demands.
+ * @param speedMps The current speed.
+ * @param dt The time elapsed since the previous update.
+ * @returns The new settings.
+ */
+export function step(
+    model: TractionModel,
+    accum: TractionAccum,
+    demand: TractionDemand,
+    speedMps: number,
+    dt: number
+): TractionAccum {
+    return {
+        regulator: Math.min(
+            accum.regulator + model.powerJerkLimitPerS * dt,
+            regulatorSetting(model, demand.power, speedMps)
+        ),
+        dynamicBrake: limitRate(
+            accum.dynamicBrake,
+            dynamicBrakeSetting(model, demand.brake, speedMps),
+            model.brakeJerkLimitPerS * dt
+        ),
+    };
+}
+
+/**
+ * Compute the control values to send to the blueprint.
+ * @param model The traction model.
+ * @param accum The jerk-limited settings.
+ * @param demand The engineer's demands.
+ * @param speedMps The current speed.
+ * @param nUnits The number of units in the consist.
+ * @returns The control values.
+ */
+export function toState(
+    model: TractionModel,
+    accum: TractionAccum,
+    demand: TractionDemand,
+    speedMps: number,
+    nUnits: number
+): TractionState {
+    return {
+        regulator: accum.regulator,
+        dynamicBrake: (accum.dynamicBrake * nUnits) / model.calibratedUnits,
+        trainBrake: frictionBrakeSetting(model, demand.brake, speedMps),
+        brakeEffort: brakeEffort(model, accum, demand, speedMps),
+    };
+}
+
+/**
+ * Compute the proportion of full service braking in effect. The friction
+ * brakes apply their share at once, but the dynamic brakes take time to reach
+ * theirs.
+ * @param model The traction model.
+ * @param accum The jerk-limited settings.
+ * @param demand The engineer's demands.
+ * @param speedMps The current speed.
+ * @returns The brake effort, from 0 to 1.
+ */
+export function brakeEffort(model: TractionModel, accum: TractionAccum, demand: TractionDemand, speedMps: number) {
+    const target = dynamicBrakeSetting(model, demand.brake, speedMps);
+    if (target <= 0) {
+        return Math.max(demand.brake, 0);
+    }
+    const share = interpolate(model.dynamicShare, Math.abs(speedMps));
+    return demand.brake * (1 - share + share * Math.min(accum.dynamicBrake / target, 1));
+}
+
+/**
+ * Create a new traction model instance.
+ * @param e The player's engine.
+ * @param model The traction model.
+ * @param demand A behavior that indicates the engineer's demands.
+ * @param nUnits A behavior that indicates the number of units in the consist.
+ * @returns An event stream that commmunicates all state for this system.
+ */
+export function create(
+    e: FrpEngine,
+    model: TractionModel,
+    demand: frp.Behavior<TractionDemand>,
+    nUnits: frp.Behavior<number>
+): frp.Stream<TractionState> {
+    return frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.fold<[accum: TractionAccum, speedMps: number], PlayerUpdate>(
+            ([accum], pu) => [step(model, accum, frp.snapshot(demand), pu.speedMps, pu.dt), pu.speedMps],
+            [{ regulator: 0, dynamicBrake: 0 }, 0]
+        ),
+        frp.map(([accum, speedMps]) => toState(model, accum, frp.snapshot(demand), speedMps, frp.snapshot(nUnits)))
+    );
+}
+
+function lerp([min, max]: [number, number], x: number) {
+    return min + (max - min) * x;
+}
+
+function limitRate(from: number, to: number, maxChange: number) {
+    if (to < from) {
+        return Math.max(from - maxChange, to);
+    } else {
+        return Math.min(from + maxChange, to);
+    }
+}
@@ -0,0 +1,202 @@
+/** @noSelfInFile */
+/**
+ * Typed consist messages for keeping the units of a multiple-unit train in
+ * sync with the lead cab.
+ *
+ * Consist messages only travel as far as the next vehicle, so every unit
+ * relays the messages it receives in the direction they were traveling. Each
+ * message is tagged with its origin, the rail vehicle number of the sender,
+ * and a sequence number so that units can drop messages they have already
+ * seen, which happens when a flipped vehicle relays a message back the way it
+ * came. Sequence numbers start over whenever the sender's script does, so they
+ * are also tagged with the simulation time the sender started sending at.
+ */
+
+import * as frp from "./frp";
+import { FrpSource } from "./frp-entity";
+import { FrpVehicle, SensedDirection, VehicleDoors } from "./frp-vehicle";
+import * as rw from "./railworks";
+
+/**
+ * Converts a value to and from the content of a consist message.
+ */
+export type MessageCodec<T> = {
+    /**
+     * The consist message identifier, which must be unique to this codec.
+     */
+    id: number;
+    encode: (value: T) => string;
+    /**
+     * Parse the content of a message, or return undefined if it is malformed.
+     */
+    decode: (content: string) => T | undefined;
+};
+
+/**
+ * Create a codec for a true or false value.
+ * @param id The consist message identifier.
+ * @returns The new codec.
+ */
+export function createBooleanCodec(id: number): MessageCodec<boolean> {
+    return {
+        id,
+        encode: value => (value ? "1" : "0"),
+        decode: content => {
+            if (content === "1") {
+                return true;
+            } else if (content === "0") {
+                return false;
+            } else {
+                return undefined;
+            }
+        },
+    };
+}
+
+/**
+ * Create a codec for a number.
+ * @param id The consist message identifier.
+ * @returns The new codec.
+ */
+export function createNumberCodec(id: number): MessageCodec<number> {
+    return {
+        id,
+        encode: value => `${value}`,
+        decode: content => {
+            const value = parseFloat(content);
+            // Reject NaN.
+            return value === value ? value : undefined;
+        },
+    };
+}
+
+/**
+ * Commands the doors to open or close on each side, as seen facing the
+ * direction of travel. Use orientDoors() to convert to and from the sides of a
+ * rail vehicle.
+ */
+export const doors: MessageCodec<VehicleDoors> = {
+    id: 10101,
+    encode: ([left, right]) => `${left ? 1 : 0}${right ? 1 : 0}`,
+    decode: content => {
+        const [, , left, right] = string.find(content, "^([01])([01])$");
+        return left !== undefined ? [left === "1", right === "1"] : undefined;
+    },
+};
+/**
+ * Commands the headlight setting, as defined by the engine script.
+ */
+export const headlights = createNumberCodec(10102);
+/**
+ * Commands the cab dome light on or off.
+ */
+export const cabLight = createBooleanCodec(10103);
+/**
+ * Commands the pantograph up or down.
+ */
+export const pantograph = createBooleanCodec(10104);
+/**
+ * Reports the lead unit's train brake setting, as written to its
+ * TrainBrakeControl.
+ */
+export const brakes = createNumberCodec(10105);
+
+/**
+ * Convert door sides between those of a rail vehicle and those seen facing the
+ * direction of travel. A unit that faces the other way senses the opposite
+ * direction, so its left and right sides are swapped. Units that have not yet
+ * moved are assumed to face the direction of travel.
+ * @param doors The door sides to convert.
+ * @param direction The last sensed direction of travel of the rail vehicle.
+ * @returns The converted door sides.
+ */
+export function orientDoors([left, right]: VehicleDoors, direction: SensedDirection): VehicleDoors {
+    return direction === SensedDirection.Backward ? [right, left] : [left, right];
+}
+
+/**
+ * A typed channel that sends values to, and receives values from, the other
+ * units of the consist.
+ */
+export class TrainlineChannel<T> {
+    private epoch: number | undefined = undefined;
+    private sequence = 0;
+    private readonly lastSeen = new Map<string, [epoch: number, sequence: number]>();
+    private readonly receiveSource = new FrpSource<T>();
+    private readonly e: FrpVehicle;
+    private readonly codec: MessageCodec<T>;
+    private readonly disposeRelay: frp.Unsubscribe;
+
+    /**
+     * Open a channel on a rail vehicle. The channel relays messages for other
+     * units as soon as it is opened, even if nothing here subscribes to it.
+     * @param e The rail vehicle.
+     * @param codec The codec for this channel's messages.
+     */
+    constructor(e: FrpVehicle, codec: MessageCodec<T>) {
+        this.e = e;
+        this.codec = codec;
+        const message$ = frp.compose(
+            e.createOnConsistMessageStream(),
+            frp.filter(([id]) => id === codec.id)
+        );
+        this.disposeRelay = message$(([, content, direction]) => {
+            const [, , origin, epochStr, sequenceStr, payload] = string.find(content, "^([^:]*):(%d+):(%d+):(.*)$");
+            if (origin === undefined || origin === this.getOrigin()) {
+                return;
+            }
+            const epoch = parseInt(epochStr as string);
+            const sequence = parseInt(sequenceStr as string);
+            const lastSeen = this.lastSeen.get(origin as string);
+            if (lastSeen !== undefined) {
+                // A different epoch means the sender has restarted, so its
+                // sequence numbers have too.
+                const [lastEpoch, lastSequence] = lastSeen;
+                if (epoch === lastEpoch && sequence <= lastSequence) {
+                    return;
+                }
+            }
+            this.lastSeen.set(origin as string, [epoch, sequence]);
+
+            this.e.rv.SendConsistMessage(codec.id, content, direction);
+            const value = codec.decode(payload as string);
+            if (value !== undefined) {
+                this.receiveSource.call(value);
+            }
+        });
+    }
+
+    /**
+     * Send a value to every other unit in the consist.
+     * @param value The value to send.
+     */
+    send(value: T) {
+        if (this.epoch === undefined) {
+            this.epoch = Math.floor(this.e.e.GetSimulationTime() * 1000);
+        }
+        const content = `${this.getOrigin()}:${this.epoch}:${this.sequence}:${this.codec.encode(value)}`;
+        this.sequence++;
+        this.e.rv.SendConsistMessage(this.codec.id, content, rw.ConsistDirection.Forward);
+        this.e.rv.SendConsistMessage(this.codec.id, content, rw.ConsistDirection.Backward);
+    }
+
+    /**
+     * Create an event stream of values sent by other units.
+     * @returns The new stream of values.
+     */
+    createOnReceiveStream() {
+        return this.receiveSource.createStream();
+    }
+
+    private getOrigin() {
+        const [origin] = string.gsub(this.e.rv.GetRVNumber(), ":", "");
+        return origin;
+    }
+
+    /**
+     * Stop relaying messages for this channel.
+     */
+    dispose() {
+        this.disposeRelay();
+    }
+}
@@ -0,0 +1,193 @@
+/** @noSelfInFile */
+/**
+ * Wheel slip and slide protection subsystem.
+ *
+ * Compares the acceleration the engine's tractive effort and the brake demand
+ * should produce with the measured acceleration. When the wheels lose
+ * adhesion, the power or brake demand is reduced until adhesion is recovered.
+ * Rain makes the rail more slippery, so a smaller shortfall counts as a loss
+ * of adhesion.
+ */
+
+import * as c from "./constants";
+import * as frp from "./frp";
+import { FrpEngine } from "./frp-engine";
+import { PlayerUpdate } from "./frp-vehicle";
+import * as rw from "./railworks";
+
+export type WheelSlipState = {
+    mode: SlipMode;
+    /**
+     * The proportion of the power demand to apply.
+     */
+    powerScale: number;
+    /**
+     * The proportion of the brake demand to apply.
+     */
+    brakeScale: number;
+};
+
+export enum SlipMode {
+    Adhering,
+    /**
+     * The wheels are spinning under power.
+     */
+    Slip,
+    /**
+     * The wheels are locking under braking.
+     */
+    Slide,
+}
+
+/**
+ * Describes the adhesion characteristics of a vehicle.
+ */
+export type AdhesionModel = {
+    /**
+     * The vehicle's tractive effort at full power, in N.
+     */
+    maxTractiveEffortN: number;
+    /**
+     * The deceleration produced by a full service brake application.
+     */
+    serviceDecelerationMps2: number;
+    /**
+     * The coefficient of adhesion on dry rail.
+     */
+    dryAdhesion: number;
+    /**
+     * The coefficient of adhesion in the heaviest rain.
+     */
+    wetAdhesion: number;
+    /**
+     * The shortfall in measured acceleration that indicates a loss of
+     * adhesion on dry rail. It shrinks with the coefficient of adhesion in the
+     * rain.
+     */
+    toleranceMps2: number;
+    /**
+     * The proportion of demand to apply while correcting a slip or slide.
+     */
+    correction: number;
+    /**
+     * The time adhesion must be held before the full demand is restored.
+     */
+    recoveryS: number;
+};
+
+/**
+ * Input values for a single slip detection.
+ */
+export type SlipInput = {
+    /**
+     * The proportion of tractive effort in use, from 0 to 1.
+     */
+    tractiveEffort: number;
+    /**
+     * The brake effort in effect, after jerk limiting and any correction,
+     * from 0 to 1.
+     */
+    brake: number;
+    massKg: number;
+    gradientPct: number;
+    speedMps: number;
+    accelerationMps2: number;
+    precipitation: number;
+};
+
+type SlipAccum = [mode: SlipMode, adheringS: number];
+
+const gravityMps2 = 9.81;
+
+/**
+ * Compute the shortfall in measured acceleration that indicates a loss of
+ * adhesion.
+ * @param model The adhesion model.
+ * @param precipitation The precipitation density, from 0 to 1.
+ * @returns The shortfall, in m/s^2.
+ */
+export function slipToleranceMps2(model: AdhesionModel, precipitation: number) {
+    const p = Math.max(Math.min(precipitation, 1), 0);
+    const adhesion = model.dryAdhesion + (model.wetAdhesion - model.dryAdhesion) * p;
+    return (model.toleranceMps2 * adhesion) / model.dryAdhesion;
+}
+
+/**
+ * Detect a loss of adhesion.
+ * @param model The adhesion model.
+ * @param input The current effort, demand, and motion of the vehicle.
+ * @returns The detected slip mode.
+ */
+export function detect(model: AdhesionModel, input: SlipInput): SlipMode {
+    if (Math.abs(input.speedMps) < c.stopSpeed) {
+        return SlipMode.Adhering;
+    }
+    // Work in the direction of travel.
+    const sign = input.speedMps > 0 ? 1 : -1;
+    const measuredMps2 = sign * input.accelerationMps2;
+    const gravityEffectMps2 = (-sign * input.gradientPct * gravityMps2) / 100;
+    const toleranceMps2 = slipToleranceMps2(model, input.precipitation);
+    if (input.tractiveEffort > 0) {
+        const demandMps2 = (input.tractiveEffort * model.maxTractiveEffortN) / input.massKg;
+        const expectedMps2 = demandMps2 + gravityEffectMps2;
+        return expectedMps2 - measuredMps2 > toleranceMps2 ? SlipMode.Slip : SlipMode.Adhering;
+    } else if (input.brake > 0) {
+        const demandMps2 = input.brake * model.serviceDecelerationMps2;
+        const expectedMps2 = -demandMps2 + gravityEffectMps2;
+        return measuredMps2 - expectedMps2 > toleranceMps2 ? SlipMode.Slide : SlipMode.Adhering;
+    } else {
+        return SlipMode.Adhering;
+    }
+}
+
+/**
+ * Create a new wheel slip protection instance.
+ * @param e The player's engine.
+ * @param model The adhesion model.
+ * @param brake A behavior that indicates the brake effort in effect, after
+ * jerk limiting and any correction this system has asked for, from 0 to 1.
+ * @param canReduceBrake A behavior that indicates whether the brake demand may
+ * be reduced to correct a slide. Penalty and emergency applications should
+ * not be.
+ * @returns An event stream that commmunicates all state for this system.
+ */
+export function create(
+    e: FrpEngine,
+    model: AdhesionModel,
+    brake: frp.Behavior<number>,
+    canReduceBrake: frp.Behavior<boolean> = true
+): frp.Stream<WheelSlipState> {
+    const brakeScale = (mode: SlipMode) =>
+        mode === SlipMode.Slide && frp.snapshot(canReduceBrake) ? model.correction : 1;
+    return frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.fold<SlipAccum, PlayerUpdate>(
+            ([mode, adheringS], pu) => {
+                const detected = detect(model, {
+                    tractiveEffort: e.eng.GetTractiveEffort(),
+                    brake: frp.snapshot(brake),
+                    massKg: e.rv.GetTotalMass(),
+                    gradientPct: e.rv.GetGradient(),
+                    speedMps: pu.speedMps,
+                    accelerationMps2: e.rv.GetAcceleration(),
+                    precipitation: rw.WeatherController.GetPrecipitationDensity(),
+                });
+                if (detected !== SlipMode.Adhering) {
+                    return [detected, 0];
+                } else if (mode !== SlipMode.Adhering && adheringS + pu.dt < model.recoveryS) {
+                    return [mode, adheringS + pu.dt];
+                } else {
+                    return [SlipMode.Adhering, 0];
+                }
+            },
+            [SlipMode.Adhering, 0]
+        ),
+        frp.map(([mode]): WheelSlipState => {
+            return {
+                mode,
+                powerScale: mode === SlipMode.Slip ? model.correction : 1,
+                brakeScale: brakeScale(mode),
+            };
+        })
+    );
+}
@@ -3,19 +3,29 @@
 import * as acses from "lib/acses";
 import * as ale from "lib/alerter";
 import * as asc from "lib/asc";
+import * as atc from "lib/atc";
+import * as braking from "lib/braking";
 import * as cs from "lib/cabsignals";
 import * as c from "lib/constants";
+import * as ctl from "lib/controls";
+import * as doors from "lib/doors";
 import * as frp from "lib/frp";
 import { FrpEngine } from "lib/frp-engine";
 import { fsm, mapBehavior, rejectRepeats, rejectUndefined } from "lib/frp-extra";
-import { PlayerUpdate, SensedDirection, VehicleCamera } from "lib/frp-vehicle";
+import { ControlSlot, PlayerUpdate, SensedDirection, VehicleCamera, VehicleDoors } from "lib/frp-vehicle";
 import * as m from "lib/math";
+import * as power from "lib/power";
 import * as rw from "lib/railworks";
+import * as trace from "lib/trace";
+import * as traction from "lib/traction";
+import * as trainline from "lib/trainline";
+import * as wheelslip from "lib/wheelslip";
 
 enum ControlEvent {
     Autostart,
     Autostop,
     EmergencyBrake,
+    KeyTransfer,
 }
 
 enum InterlockAllows {
@@ -92,33 +102,215 @@ enum BrakeLight {
 type WiperUpdate = [setting: WiperMode, dt: number];
 type WiperMode = false | number;
 
+enum Railroad {
+    Lirr,
+    MetroNorth,
+}
+
+enum AtcStatus {
+    Unpowered = -1,
+    CutOut = 0,
+    CutIn = 1,
+}
+
+enum AcsesStatus {
+    Unpowered = -1,
+    CutOut = 0,
+    Degraded = 1,
+    Active = 2,
+}
+
+/**
+ * The railroad the M3 is set up to run on, which selects the signal speed
+ * enforcement system (LIRR ASC or Metro-North ATC) and the ACSES profile.
+ */
+const railroad = Railroad.Lirr as Railroad;
+
+/**
+ * The electrification the M3 assumes until a route signal says otherwise.
+ * Routes that do not send "ElecThirdRail", "ElecOverhead", "ElecDual" or
+ * "ElecNone" signal messages, as described in the power collection subsystem,
+ * may have either kind, so the M3 collects from both and never sees a gap.
+ */
+const routeElectrification = power.dualElectrification;
+
+/**
+ * Set to true to print a trace of every session to LogMate, so that it can be
+ * replayed offline against this script. Tracing prints a line for every frame,
+ * so leave it off in releases.
+ */
+const recordTrace = false as boolean;
+
+/**
+ * The controls the M3 reads and writes.
+ */
+export const controls = {
+    // Cab controls and the interlock between them
+    masterKey: ctl.numberControl("MasterKey", 0, 1),
+    throttleAndBrake: ctl.numberControl("ThrottleAndBrake", -1, 1),
+    userVirtualReverser: ctl.numberControl("UserVirtualReverser", 0, 3),
+    interlock: ctl.integerControl<InterlockAllows>("Interlock", 0, 3),
+    virtualStartup: ctl.numberControl("VirtualStartup", -1, 1),
+    virtualEmergencyBrake: ctl.numberControl("VirtualEmergencyBrake", 0, 1),
+    horn: ctl.booleanControl("Horn"),
+    isPlayerControl: ctl.booleanControl("IsPlayerControl"),
+    // Traction and braking
+    regulator: ctl.numberControl("Regulator", 0, 1),
+    reverser: ctl.numberControl("Reverser", -1, 1),
+    dynamicBrake: ctl.numberControl("DynamicBrake", 0, 1),
+    trainBrakeControl: ctl.numberControl("TrainBrakeControl", 0, 1),
+    charging: ctl.booleanControl("Charging"),
+    brakePipePsi: ctl.numberControl("AirBrakePipePressurePSI", 0, 150),
+    brakeCylinderPsi: ctl.numberControl("TrainBrakeCylinderPressurePSI", 0, 150),
+    pantograph: ctl.booleanControl("PantographControl"),
+    virtualPantograph: ctl.booleanControl("VirtualPantographControl"),
+    wheelSlipIndicator: ctl.booleanControl("WheelSlipIndicator"),
+    wheelSlipAlarm: ctl.booleanControl("WheelSlipAlarm"),
+    // Speedometer
+    speedometerMph: ctl.numberControl("SpeedometerMPH", 0, 100),
+    speedoHundreds: ctl.integerControl("SpeedoHundreds", -1, 9),
+    speedoTens: ctl.integerControl("SpeedoTens", -1, 9),
+    speedoUnits: ctl.integerControl("SpeedoUnits", -1, 9),
+    // Safety systems
+    acknowledge: ctl.booleanControl("AWSReset"),
+    lirrAspect: ctl.integerControl<cs.LirrAspect>("LirrAspect", 0, 5),
+    signalSpeedLimit: ctl.numberControl("SignalSpeedLimit", 0, 80),
+    aleCutIn: ctl.booleanControl("ALECutIn"),
+    alerterIndicator: ctl.booleanControl("AlerterIndicator"),
+    aleAlarm: ctl.booleanControl("ALEAlarm"),
+    atcCutIn: ctl.booleanControl("ATCCutIn"),
+    atcStatus: ctl.integerControl<AtcStatus>("ATCStatus", -1, 1),
+    overspeed: ctl.booleanControl("Overspeed"),
+    atcAlarm: ctl.booleanControl("ATCAlarm"),
+    brakeAssurance: ctl.booleanControl("BrakeAssurance"),
+    atcForestall: ctl.booleanControl("ATCForestall"),
+    acsesCutIn: ctl.booleanControl("ACSESCutIn"),
+    acsesPenalty: ctl.booleanControl("ACSESPenalty"),
+    acsesAlarm: ctl.booleanControl("ACSESAlarm"),
+    acsesStop: ctl.booleanControl("ACSESStop"),
+    trackSpeedHundreds: ctl.integerControl("TrackSpeedHundreds", -1, 9),
+    trackSpeedTens: ctl.integerControl("TrackSpeedTens", -1, 9),
+    trackSpeedUnits: ctl.integerControl("TrackSpeedUnits", -1, 9),
+    trackSpeedDashes: ctl.booleanControl("TrackSpeedDashes"),
+    acsesStatus: ctl.integerControl<AcsesStatus>("ACSESStatus", -1, 2),
+    acsesBeep: ctl.booleanControl("ACSESBeep"),
+    acsesOverspeed: ctl.integerControl<OverspeedMode>("ACSESOverspeed", 0, 2),
+    penaltyIndicator: ctl.booleanControl("PenaltyIndicator"),
+    awsWarnCount: ctl.booleanControl("AWSWarnCount"),
+    // Lights and wipers
+    headlights: ctl.numberControl("Headlights", 0, 2),
+    virtualHeadlights: ctl.numberControl("VirtualHeadlights", 0, 2),
+    taillights: ctl.booleanControl("Taillights"),
+    cabLight: ctl.booleanControl("Cablight"),
+    wipers: ctl.numberControl("Wipers", 0, 1),
+    virtualWipers: ctl.numberControl("VirtualWipers", 0, 1),
+    wipersPosition: ctl.numberControl("WipersPosition", 0, 1),
+    // Doors and sounds; the door enable and sound controls are defined in
+    // M3_DoorControls.xml.
+    doorsOpenCloseLeft: ctl.booleanControl("DoorsOpenCloseLeft"),
+    doorsOpenCloseRight: ctl.booleanControl("DoorsOpenCloseRight"),
+    doorEnableLeft: ctl.booleanControl("DoorEnableLeft"),
+    doorEnableRight: ctl.booleanControl("DoorEnableRight"),
+    doorChime: ctl.booleanControl("DoorChime"),
+    doorAnnouncement: ctl.booleanControl("DoorAnnouncement"),
+    ambientSound: ctl.booleanControl("AmbientSound"),
+};
+
+/**
+ * The traction and braking characteristics of an M3 unit.
+ */
+const tractionModel: traction.TractionModel = {
+    tractiveEffort: [
+        // Below 44 mph, notch 1 applies a fixed 20% and the higher notches
+        // apply full effort.
+        [
+            0,
+            [
+                [0.375, 0.2],
+                [0.375, 1],
+            ],
+        ],
+        // From 44 mph, the effort follows the master controller.
+        [
+            44 * c.mph.toMps,
+            [
+                [0, 0],
+                [1, 1],
+            ],
+        ],
+    ],
+    // The motors draw their full current without a separate limit.
+    fullEffortA: 1200,
+    // The dynamics fade out from 8 to 3 mph.
+    dynamicShare: [
+        [3 * c.mph.toMps, 0],
+        [8 * c.mph.toMps, 1],
+    ],
+    dynamicService: [0.25, 1],
+    frictionService: [0.048, 0.137], // 13 to 43 psi BC
+    frictionHold: 0.035, // 8 psi BC
+    powerJerkLimitPerS: 0.5,
+    brakeJerkLimitPerS: 0.25,
+    // Physics are calibrated for a 12-car train.
+    calibratedUnits: 12,
+};
+
+/**
+ * The braking characteristics of an M3 consist.
+ */
+const brakingModel: braking.BrakingModel = {
+    brakes: braking.BrakeSystem.Electropneumatic,
+    designMassPerMKg: 2200, // about 57 t per car
+};
+
+/**
+ * The adhesion characteristics of an M3 unit.
+ */
+const adhesionModel: wheelslip.AdhesionModel = {
+    maxTractiveEffortN: 50e3,
+    serviceDecelerationMps2: 3 * c.mph.toMps, // 3 mph/s
+    dryAdhesion: 0.3,
+    wetAdhesion: 0.12,
+    toleranceMps2: 0.5,
+    correction: 0.5,
+    recoveryS: 1.5,
+};
+
 const me = new FrpEngine(() => {
     // Useful streams and behaviors
-    const speedoMph$ = frp.compose(me.createPlayerWithKeyUpdateStream(), me.mapGetCvStream("SpeedometerMPH", 0));
+    const speedoMph$ = frp.compose(me.createPlayerWithKeyUpdateStream(), ctl.mapGetStream(me, controls.speedometerMph));
     const speedoMph = frp.stepper(speedoMph$, 0);
     const brakePipePsi$ = frp.compose(
         me.createPlayerWithKeyUpdateStream(),
-        me.mapGetCvStream("AirBrakePipePressurePSI", 0)
+        ctl.mapGetStream(me, controls.brakePipePsi)
     );
     const brakePipePsi = frp.stepper(brakePipePsi$, 0);
 
     // Event streams for the startup (Z) and emergency brake (Backspace)
     // controls
     const autostartEvent$ = frp.compose(
-        me.createOnCvChangeStreamFor("VirtualStartup", 0),
+        ctl.createOnChangeStream(me, controls.virtualStartup),
         frp.filter(cv => cv >= 1 || cv <= -1),
         frp.map(cv => (cv > 0 ? ControlEvent.Autostart : ControlEvent.Autostop))
     );
     const emergencyPullCordEvent$ = frp.compose(
-        me.createOnCvChangeStreamFor("VirtualEmergencyBrake", 0),
+        ctl.createOnChangeStream(me, controls.virtualEmergencyBrake),
         frp.filter(cv => cv >= 1),
         frp.map(_ => ControlEvent.EmergencyBrake)
     );
+    // When the player walks to the other cab of a stopped train, the master key
+    // goes with them, but the master controller and reverser stay behind.
+    const keyTransferEvent$ = frp.compose(
+        me.createOnCabChangeStream(),
+        frp.filter(_ => Math.abs(me.rv.GetSpeed()) < c.stopSpeed),
+        frp.map(_ => ControlEvent.KeyTransfer)
+    );
 
     // The master controller/reverser/master key interlock
     const interlockState$ = frp.compose(
         me.createOnCvChangeStream(),
         frp.merge(autostartEvent$),
+        frp.merge(keyTransferEvent$),
         me.foldAfterSettled(
             (accum, input) => {
                 switch (input) {
@@ -128,44 +320,48 @@ const me = new FrpEngine(() => {
                         return InterlockAllows.MasterKeyIn;
                     case ControlEvent.EmergencyBrake:
                         return accum;
+                    case ControlEvent.KeyTransfer:
+                        return accum === InterlockAllows.MasterKeyIn
+                            ? accum
+                            : InterlockAllows.MasterKeyOutMasterControllerNonEmergency;
                     default:
                 }
                 const [name, , value] = input;
                 switch (accum) {
                     case InterlockAllows.MasterKeyIn:
-                        if (name === "MasterKey" && value > 0.5) {
+                        if (name === controls.masterKey.name && value > 0.5) {
                             return InterlockAllows.MasterKeyOutMasterControllerNonEmergency;
                         }
                         break;
                     case InterlockAllows.MasterKeyOutMasterControllerNonEmergency:
-                        if (name === "MasterKey" && value < 0.5) {
+                        if (name === controls.masterKey.name && value < 0.5) {
                             return InterlockAllows.MasterKeyIn;
-                        } else if (name === "ThrottleAndBrake" && value > -0.95) {
+                        } else if (name === controls.throttleAndBrake.name && value > -0.95) {
                             return InterlockAllows.ReverserNonKeyOutMasterControllerEmergency;
                         }
                         break;
                     case InterlockAllows.ReverserNonKeyOutMasterControllerEmergency:
-                        if (name === "UserVirtualReverser" && value < 2.5) {
+                        if (name === controls.userVirtualReverser.name && value < 2.5) {
                             return InterlockAllows.ReverserKeyOut;
-                        } else if (name === "ThrottleAndBrake" && value < -0.95) {
+                        } else if (name === controls.throttleAndBrake.name && value < -0.95) {
                             return InterlockAllows.MasterKeyOutMasterControllerNonEmergency;
                         }
                         break;
                     case InterlockAllows.ReverserKeyOut:
                     default:
-                        if (name === "UserVirtualReverser" && value > 2.5) {
+                        if (name === controls.userVirtualReverser.name && value > 2.5) {
                             return InterlockAllows.ReverserNonKeyOutMasterControllerEmergency;
                         }
                         break;
                 }
                 return accum;
             },
-            () => me.rv.GetControlValue("Interlock", 0) as InterlockAllows
+            () => ctl.get(me, controls.interlock) ?? InterlockAllows.MasterKeyIn
         ),
         frp.hub()
     );
     interlockState$(i => {
-        me.rv.SetControlValue("Interlock", 0, i as number);
+        ctl.set(me, controls.interlock, i);
     });
     const interlockState = frp.stepper(interlockState$, undefined);
 
@@ -173,8 +369,9 @@ const me = new FrpEngine(() => {
     // manipulated by the player. We also process autostart events here.
     const rwMasterController$ = frp.compose(
         autostartEvent$,
+        frp.merge(keyTransferEvent$),
         frp.map(evt => (evt === ControlEvent.Autostart ? -0.9 : -1)),
-        frp.merge(me.createGetCvAndOnCvChangeStreamFor("ThrottleAndBrake", 0)),
+        frp.merge(ctl.createStream(me, controls.throttleAndBrake)),
         frp.map(cv => {
             switch (frp.snapshot(interlockState)) {
                 case InterlockAllows.MasterKeyIn:
@@ -193,8 +390,9 @@ const me = new FrpEngine(() => {
     );
     const rwReverser$ = frp.compose(
         autostartEvent$,
+        frp.merge(keyTransferEvent$),
         frp.map(evt => (evt === ControlEvent.Autostart ? 1 : 3)),
-        frp.merge(me.createGetCvAndOnCvChangeStreamFor("UserVirtualReverser", 0)),
+        frp.merge(ctl.createStream(me, controls.userVirtualReverser)),
         frp.map(cv => {
             switch (frp.snapshot(interlockState)) {
                 case InterlockAllows.MasterKeyIn:
@@ -218,7 +416,7 @@ const me = new FrpEngine(() => {
     const rwMasterKey$ = frp.compose(
         autostartEvent$,
         frp.map(evt => (evt === ControlEvent.Autostart ? 1 : 0)),
-        frp.merge(me.createGetCvAndOnCvChangeStreamFor("MasterKey", 0)),
+        frp.merge(ctl.createStream(me, controls.masterKey)),
         frp.filter(_ => me.rv.IsExpertMode()),
         frp.map(cv => {
             switch (frp.snapshot(interlockState)) {
@@ -237,13 +435,13 @@ const me = new FrpEngine(() => {
         frp.hub()
     );
     rwMasterController$(cv => {
-        me.rv.SetControlValue("ThrottleAndBrake", 0, cv);
+        ctl.set(me, controls.throttleAndBrake, cv);
     });
     rwReverser$(cv => {
-        me.rv.SetControlValue("UserVirtualReverser", 0, cv);
+        ctl.set(me, controls.userVirtualReverser, cv);
     });
     rwMasterKey$(cv => {
-        me.rv.SetControlValue("MasterKey", 0, cv);
+        ctl.set(me, controls.masterKey, cv);
     });
 
     // Friendly event streams and behaviors for reading the positions of the
@@ -283,15 +481,28 @@ const me = new FrpEngine(() => {
         rwMasterKey$,
         frp.map(cv => (cv > 0.5 ? MasterKey.KeyIn : MasterKey.KeyOut))
     );
-    const hasPower$ = frp.compose(
-        masterKey$,
-        frp.map(mk => mk === MasterKey.KeyIn),
-        frp.hub()
+    const keyIn = frp.stepper(
+        frp.compose(
+            masterKey$,
+            frp.map(mk => mk === MasterKey.KeyIn)
+        ),
+        false
+    );
+
+    // Power collection. The cab has no selector switch, so collect from
+    // whichever sources the track provides.
+    const power$ = frp.compose(power.create(me, power.CollectionMode.Auto, keyIn, routeElectrification), frp.hub());
+    const powerState = frp.stepper(power$, undefined);
+    const hasPower = frp.stepper(
+        frp.compose(
+            power$,
+            frp.map(state => state.hasPower)
+        ),
+        false
     );
-    const hasPower = frp.stepper(hasPower$, false);
 
     // Useful behaviors for setting up safety systems
-    const acknowledge = () => (me.rv.GetControlValue("AWSReset", 0) as number) > 0.5;
+    const acknowledge = me.memoize(() => ctl.get(me, controls.acknowledge) ?? false);
     const coastOrBrake = () => {
         const mc = frp.snapshot(masterController);
         if (mc === undefined || mc === ControllerRegion.EmergencyBrake || mc === ControllerRegion.Coast) {
@@ -306,8 +517,7 @@ const me = new FrpEngine(() => {
     const cabSignalResume$ = frp.compose(
         me.createOnResumeStream(),
         frp.map(_ => {
-            const cv = me.rv.GetControlValue("LirrAspect", 0) as number;
-            return cv as cs.LirrAspect;
+            return ctl.get(me, controls.lirrAspect) as cs.LirrAspect;
         })
     );
     const cabSignal$ = frp.compose(
@@ -381,10 +591,10 @@ const me = new FrpEngine(() => {
         )
     );
     saveCabSignal$(aspect => {
-        me.rv.SetControlValue("LirrAspect", 0, aspect as number);
+        ctl.set(me, controls.lirrAspect, aspect);
     });
     setSignalSpeed$(cv => {
-        me.rv.SetControlValue("SignalSpeedLimit", 0, cv);
+        ctl.set(me, controls.signalSpeedLimit, cv);
     });
 
     // Alerter (ALE) vigilance subsystem
@@ -405,7 +615,7 @@ const me = new FrpEngine(() => {
         },
         acknowledge,
         masterController,
-        () => (me.rv.GetControlValue("Horn", 0) as number) > 0.5
+        () => ctl.get(me, controls.horn) ?? false
     );
     const aleInputCancelsPenalty$ = frp.compose(
         masterController$,
@@ -420,25 +630,28 @@ const me = new FrpEngine(() => {
         frp.map(_ => ale.AlerterInput.Activity),
         frp.merge(aleInputCancelsPenalty$)
     );
-    const aleCutIn = createCutInBehavior(me, "ALECutIn", 0);
-    const ale$ = frp.compose(ale.create(me, aleInput$, aleCutIn, hasPower), frp.hub());
+    const aleCutIn = createCutInBehavior(me, controls.aleCutIn);
+    const ale$ = frp.compose(ale.create(me, aleInput$, aleCutIn, hasPower, createSaveSlots("SaveALE", 2)), frp.hub());
     const aleState = frp.stepper(ale$, undefined);
     ale$(state => {
-        me.rv.SetControlValue("AlerterIndicator", 0, state.alarm ? 1 : 0);
-        me.rv.SetControlValue("ALEAlarm", 0, state.alarm ? 1 : 0);
+        ctl.set(me, controls.alerterIndicator, state.alarm);
+        ctl.set(me, controls.aleAlarm, state.alarm);
     });
 
-    // ASC signal speed enforcement subsystem
-    const ascCutIn = createCutInBehavior(me, "ATCCutIn", 0);
+    // Braking performance of the consist, for the speed enforcement curves
+    const brakingPerformance = frp.stepper(braking.create(me, brakingModel), braking.nominalPerformance);
+
+    // ASC or ATC signal speed enforcement subsystem
+    const ascCutIn = createCutInBehavior(me, controls.atcCutIn);
     const ascStatus$ = frp.compose(
         me.createPlayerWithKeyUpdateStream(),
         mapBehavior(
             frp.liftN(
                 (cutIn, hasPower) => {
                     if (hasPower) {
-                        return cutIn ? 1 : 0;
+                        return cutIn ? AtcStatus.CutIn : AtcStatus.CutOut;
                     } else {
-                        return -1;
+                        return AtcStatus.Unpowered;
                     }
                 },
                 ascCutIn,
@@ -446,24 +659,61 @@ const me = new FrpEngine(() => {
             )
         )
     );
+    const metroNorthAspect$ = frp.compose(
+        me.createOnSignalMessageStream(),
+        frp.map(msg => cs.toPulseCode(msg)),
+        rejectUndefined(),
+        frp.map(pc => cs.toMetroNorthAspect(pc))
+    );
     const asc$ = frp.compose(
-        asc.create(me, cabSignalWithDelay$, acknowledge, coastOrBrake, ascCutIn, hasPower),
+        railroad === Railroad.MetroNorth
+            ? atc.create(
+                  me,
+                  metroNorthAspect$,
+                  acknowledge,
+                  coastOrBrake,
+                  ascCutIn,
+                  hasPower,
+                  createSaveSlots("SaveASC", 2)
+              )
+            : asc.create(
+                  me,
+                  cabSignalWithDelay$,
+                  acknowledge,
+                  coastOrBrake,
+                  ascCutIn,
+                  hasPower,
+                  brakingPerformance,
+                  createSaveSlots("SaveASC", 6)
+              ),
         frp.hub()
     );
     const ascState = frp.stepper(asc$, undefined);
     ascStatus$(status => {
-        me.rv.SetControlValue("ATCStatus", 0, status);
+        ctl.set(me, controls.atcStatus, status);
     });
     asc$(state => {
-        me.rv.SetControlValue("Overspeed", 0, state.overspeed ? 1 : 0);
-        me.rv.SetControlValue("ATCAlarm", 0, state.alarm ? 1 : 0);
-        me.rv.SetControlValue("BrakeAssurance", 0, state.brakeAssurance ? 1 : 0);
-        me.rv.SetControlValue("ATCForestall", 0, state.atcForestall ? 1 : 0);
+        ctl.set(me, controls.overspeed, state.overspeed);
+        ctl.set(me, controls.atcAlarm, state.alarm);
+        ctl.set(me, controls.brakeAssurance, state.brakeAssurance);
+        ctl.set(me, controls.atcForestall, state.atcForestall);
     });
 
     // ACSES track speed enforcement subsystem
-    const acsesCutIn = createCutInBehavior(me, "ACSESCutIn", 0);
-    const acses$ = frp.compose(acses.create(me, acknowledge, coastOrBrake, acsesCutIn, hasPower), frp.hub());
+    const acsesCutIn = createCutInBehavior(me, controls.acsesCutIn);
+    const acses$ = frp.compose(
+        acses.create(
+            me,
+            railroad === Railroad.MetroNorth ? acses.metroNorthProfile : acses.lirrProfile,
+            acknowledge,
+            coastOrBrake,
+            acsesCutIn,
+            hasPower,
+            brakingPerformance,
+            createSaveSlots("SaveACSES", 3)
+        ),
+        frp.hub()
+    );
     const acsesState = frp.stepper(acses$, undefined);
     const acsesStatus$ = frp.compose(
         me.createPlayerWithKeyUpdateStream(),
@@ -472,12 +722,14 @@ const me = new FrpEngine(() => {
                 (cutIn, hasPower, state) => {
                     if (hasPower) {
                         if (cutIn) {
-                            return state?.trackSpeed === acses.AcsesSpeed.Degraded ? 1 : 2;
+                            return state?.trackSpeed === acses.AcsesSpeed.Degraded
+                                ? AcsesStatus.Degraded
+                                : AcsesStatus.Active;
                         } else {
-                            return 0;
+                            return AcsesStatus.CutOut;
                         }
                     } else {
-                        return -1;
+                        return AcsesStatus.Unpowered;
                     }
                 },
                 acsesCutIn,
@@ -510,8 +762,7 @@ const me = new FrpEngine(() => {
                 }
             }
         }),
-        me.mapEventStreamTimer(),
-        frp.map(onOff => (onOff ? 1 : 0))
+        me.mapEventStreamTimer()
     );
     const acsesOverspeed$ = frp.compose(
         me.createPlayerWithKeyUpdateStream(),
@@ -535,44 +786,68 @@ const me = new FrpEngine(() => {
         }, OverspeedMode.None)
     );
     acses$(state => {
-        me.rv.SetControlValue("ACSESPenalty", 0, state.brakes !== acses.AcsesBrake.None ? 1 : 0);
-        me.rv.SetControlValue("ACSESAlarm", 0, state.alarm ? 1 : 0);
-        me.rv.SetControlValue("ACSESStop", 0, state.brakes === acses.AcsesBrake.PositiveStop ? 1 : 0);
+        ctl.set(me, controls.acsesPenalty, state.brakes !== acses.AcsesBrake.None);
+        ctl.set(me, controls.acsesAlarm, state.alarm);
+        ctl.set(me, controls.acsesStop, state.brakes === acses.AcsesBrake.PositiveStop);
 
         let h, t, u, d;
         if (state.trackSpeed === acses.AcsesSpeed.CutOut) {
-            [h, t, u, d] = [-1, -1, -1, 0];
+            [h, t, u, d] = [-1, -1, -1, false];
         } else if (state.trackSpeed === acses.AcsesSpeed.Degraded) {
-            [h, t, u, d] = [-1, -1, -1, 1];
+            [h, t, u, d] = [-1, -1, -1, true];
         } else {
             const [, speedMps] = state.trackSpeed;
             [[h, t, u]] = m.digits(Math.round(speedMps * c.mps.toMph), 3);
-            d = 0;
+            d = false;
         }
-        me.rv.SetControlValue("TrackSpeedHundreds", 0, h);
-        me.rv.SetControlValue("TrackSpeedTens", 0, t);
-        me.rv.SetControlValue("TrackSpeedUnits", 0, u);
-        me.rv.SetControlValue("TrackSpeedDashes", 0, d);
+        ctl.set(me, controls.trackSpeedHundreds, h);
+        ctl.set(me, controls.trackSpeedTens, t);
+        ctl.set(me, controls.trackSpeedUnits, u);
+        ctl.set(me, controls.trackSpeedDashes, d);
     });
     acsesStatus$(status => {
-        me.rv.SetControlValue("ACSESStatus", 0, status);
+        ctl.set(me, controls.acsesStatus, status);
     });
-    acsesBeep$(cv => {
-        me.rv.SetControlValue("ACSESBeep", 0, cv);
+    acsesBeep$(onOff => {
+        ctl.set(me, controls.acsesBeep, onOff);
     });
     acsesOverspeed$(os => {
-        let cv;
+        let mode;
         if (os === OverspeedMode.None) {
-            cv = 0;
+            mode = OverspeedMode.None;
         } else {
-            const [mode, timerS] = os;
-            if (timerS % 1 < 0.5) {
-                cv = mode === OverspeedMode.Warning ? 1 : 2;
-            } else {
-                cv = 0;
-            }
+            const [flashMode, timerS] = os;
+            mode = timerS % 1 < 0.5 ? flashMode : OverspeedMode.None;
         }
-        me.rv.SetControlValue("ACSESOverspeed", 0, cv);
+        ctl.set(me, controls.acsesOverspeed, mode);
+    });
+
+    // Door control subsystem. The door enable and sound controls are defined
+    // in M3_DoorControls.xml; without the enable controls, both sides may be
+    // opened whenever the train is stopped and keyed in.
+    const doorEnable = (): VehicleDoors => [
+        ctl.get(me, controls.doorEnableLeft) ?? true,
+        ctl.get(me, controls.doorEnableRight) ?? true,
+    ];
+    const doors$ = frp.compose(
+        doors.create(me, doorEnable, keyIn, {
+            onAnnouncement: () => {
+                ctl.set(me, controls.doorAnnouncement, true);
+            },
+            onChime: () => {
+                ctl.set(me, controls.doorAnnouncement, false);
+            },
+        }),
+        frp.hub()
+    );
+    const doorsState = frp.stepper(doors$, undefined);
+    const doorChime$ = frp.compose(
+        doors$,
+        frp.map(state => state.chime),
+        rejectRepeats()
+    );
+    doorChime$(chime => {
+        ctl.set(me, controls.doorChime, chime);
     });
 
     // Set the common penalty brake indicator.
@@ -609,7 +884,7 @@ const me = new FrpEngine(() => {
         )
     );
     isAnyPenalty$(penalty => {
-        me.rv.SetControlValue("PenaltyIndicator", 0, penalty ? 1 : 0);
+        ctl.set(me, controls.penaltyIndicator, penalty);
     });
 
     // Show the exclamation symbol on the HUD for any audible alarm.
@@ -625,39 +900,46 @@ const me = new FrpEngine(() => {
         )
     );
     isAnyAlarm$(alarm => {
-        me.rv.SetControlValue("AWSWarnCount", 0, alarm ? 1 : 0);
+        ctl.set(me, controls.awsWarnCount, alarm ?? false);
     });
 
     // Logic for the virtual throttle, reverser, dynamic brake, and air brake
     const airBrakeChargeThreshold = 0.37; // 90 psi BP
-    // The commanded brake setting depends on the position of the master
-    // controller and the penalty applications issued by the safety systems.
-    const brakeCommand = frp.liftN(
-        (mc, aleState, ascState, acsesState): BrakeCommand => {
-            if (ascState?.brakes === asc.AscBrake.Emergency || mc === ControllerRegion.EmergencyBrake) {
-                return BrakeType.Emergency;
-            } else if (
-                aleState?.brakes === ale.AlerterBrake.Penalty ||
-                ascState?.brakes === asc.AscBrake.Penalty ||
-                ascState?.brakes === asc.AscBrake.MaxService ||
-                acsesState?.brakes === acses.AcsesBrake.Penalty ||
-                acsesState?.brakes === acses.AcsesBrake.PositiveStop
-            ) {
-                return [BrakeType.Service, 1];
-            } else if (mc === undefined) {
-                return BrakeType.None;
-            } else if (mc === ControllerRegion.Coast) {
-                return BrakeType.None;
-            } else {
-                const [region, amount] = mc;
-                return region === ControllerRegion.ServiceBrake ? [BrakeType.Service, amount] : BrakeType.None;
-            }
-        },
-        masterController,
+    // The safety systems issue penalty applications at full service.
+    const isPenaltyApplication = frp.liftN(
+        (aleState, ascState, acsesState) =>
+            aleState?.brakes === ale.AlerterBrake.Penalty ||
+            ascState?.brakes === asc.AscBrake.Penalty ||
+            ascState?.brakes === asc.AscBrake.MaxService ||
+            acsesState?.brakes === acses.AcsesBrake.Penalty ||
+            acsesState?.brakes === acses.AcsesBrake.PositiveStop,
         aleState,
         ascState,
         acsesState
     );
+    // The commanded brake setting depends on the position of the master
+    // controller and the penalty applications issued by the safety systems.
+    const brakeCommand = me.memoize(
+        frp.liftN(
+            (mc, ascState, isPenalty): BrakeCommand => {
+                if (ascState?.brakes === asc.AscBrake.Emergency || mc === ControllerRegion.EmergencyBrake) {
+                    return BrakeType.Emergency;
+                } else if (isPenalty) {
+                    return [BrakeType.Service, 1];
+                } else if (mc === undefined) {
+                    return BrakeType.None;
+                } else if (mc === ControllerRegion.Coast) {
+                    return BrakeType.None;
+                } else {
+                    const [region, amount] = mc;
+                    return region === ControllerRegion.ServiceBrake ? [BrakeType.Service, amount] : BrakeType.None;
+                }
+            },
+            masterController,
+            ascState,
+            isPenaltyApplication
+        )
+    );
     // The brake setting can also be affected by discrete events that represent
     // brake charges, the emergency pull cord, and autostart commands.
     const brakesCanCharge = frp.liftN(
@@ -670,7 +952,7 @@ const me = new FrpEngine(() => {
             );
         },
         brakeCommand,
-        () => (me.rv.GetControlValue("Charging", 0) as number) > 0.5
+        () => ctl.get(me, controls.charging) ?? false
     );
     const chargeBrakes$ = frp.compose(
         me.createPlayerWithKeyUpdateStream(),
@@ -705,47 +987,51 @@ const me = new FrpEngine(() => {
     );
     const emergencyBrake$ = frp.compose(
         brakeCommandAndEvents$,
-        frp.fold((accum, command) => {
-            if (command === BrakeType.Emergency) {
-                return true;
-            } else if (command === BrakeType.Autostart) {
-                return false;
-            } else if (accum) {
-                return !frp.snapshot(emergencyBrakeCanRelease);
-            } else {
-                return false;
-            }
-        }, false),
+        me.foldWithSave(
+            (accum, command) => {
+                if (command === BrakeType.Emergency) {
+                    return true;
+                } else if (command === BrakeType.Autostart) {
+                    return false;
+                } else if (accum) {
+                    return !frp.snapshot(emergencyBrakeCanRelease);
+                } else {
+                    return false;
+                }
+            },
+            false,
+            { encode: applied => [applied ? 1 : 0], decode: ([cv]) => cv > 0.5 },
+            createSaveSlots("SaveEmergencyBrake", 1)
+        ),
         frp.hub()
     );
     const emergencyBrake = frp.stepper(emergencyBrake$, false);
     // The commanded throttle setting depends on the position of the master
-    // controller, the commanded brake setting, and the emergency brake latch.
+    // controller, the commanded brake setting, the emergency brake latch, and
+    // the door interlock.
     const throttleCommand = frp.liftN(
-        (mc, brakes, emergencyBrake, speedMph) => {
+        (mc, brakes, emergencyBrake, doorsState, powerState) => {
             if (brakes !== BrakeType.None) {
                 return 0;
             } else if (emergencyBrake) {
                 return 0;
+            } else if (doorsState?.tractionInterlock) {
+                return 0;
+            } else if (powerState?.gap) {
+                return 0;
             } else if (mc === undefined || mc === ControllerRegion.Coast || mc === ControllerRegion.EmergencyBrake) {
                 return 0;
             } else {
                 const [region, amount] = mc;
-                if (region === ControllerRegion.ServiceBrake) {
-                    return 0;
-                } else if (Math.abs(speedMph) < 44) {
-                    return amount > 0.375 ? 1 : 0.2;
-                } else {
-                    return amount;
-                }
+                return region === ControllerRegion.ServiceBrake ? 0 : amount;
             }
         },
         masterController,
         brakeCommand,
         emergencyBrake,
-        speedoMph
+        doorsState,
+        powerState
     );
-    const throttle$ = frp.compose(me.createPlayerWithKeyUpdateStream(), mapBehavior(throttleCommand));
     // The physics value of the reverser should be one of three values.
     const reverser$ = frp.compose(
         userReverser$,
@@ -762,9 +1048,9 @@ const me = new FrpEngine(() => {
             }
         })
     );
-    // Simulate a lag time for dynamic braking and adjust the applied effort for
-    // the length of the consist.
-    const nMultipleUnits = () => Math.round(me.rv.GetConsistLength() / (85.5 * c.ft.toM));
+    // The traction model applies jerk limiting and adjusts the dynamic brake
+    // effort for the length of the consist.
+    const nMultipleUnits = me.memoize(() => Math.round(me.rv.GetConsistLength() / (85.5 * c.ft.toM)));
     const dynamicBrakeCommand = frp.liftN(
         (brakes, emergencyBrake) => {
             if (emergencyBrake) {
@@ -772,31 +1058,63 @@ const me = new FrpEngine(() => {
             } else if (brakes === BrakeType.None || brakes === BrakeType.Emergency) {
                 return 0;
             } else {
-                return ((1 - 0.25) / (1 - 0)) * (brakes[1] - 1) + 1;
+                return brakes[1];
             }
         },
         brakeCommand,
         emergencyBrake
     );
+    // Wheel slip and slide protection reduces the power or brake demand until
+    // adhesion is recovered. Penalty and emergency applications are never
+    // reduced. Slides are judged against the brake effort the traction model
+    // applied in the last update, which ramps up with the dynamic brakes.
+    const wheelSlip$ = frp.compose(
+        wheelslip.create(
+            me,
+            adhesionModel,
+            (): number => frp.snapshot(tractionState)?.brakeEffort ?? 0,
+            frp.liftN(
+                (isPenalty, emergencyBrake) => !isPenalty && !emergencyBrake,
+                isPenaltyApplication,
+                emergencyBrake
+            )
+        ),
+        frp.hub()
+    );
+    const wheelSlip = frp.stepper(wheelSlip$, undefined);
+    wheelSlip$(state => {
+        const isSlipping = state.mode !== wheelslip.SlipMode.Adhering;
+        ctl.set(me, controls.wheelSlipIndicator, isSlipping);
+        ctl.set(me, controls.wheelSlipAlarm, isSlipping);
+    });
+    const traction$ = frp.compose(
+        traction.create(
+            me,
+            tractionModel,
+            frp.liftN(
+                (power, brake, wheelSlip): traction.TractionDemand => ({
+                    power: power * (wheelSlip?.powerScale ?? 1),
+                    brake: brake * (wheelSlip?.brakeScale ?? 1),
+                }),
+                throttleCommand,
+                dynamicBrakeCommand,
+                wheelSlip
+            ),
+            nMultipleUnits
+        ),
+        frp.hub()
+    );
+    const tractionState = frp.stepper(traction$, undefined);
+    const throttle$ = frp.compose(
+        traction$,
+        frp.map(state => state.regulator)
+    );
     const dynamicBrake$ = frp.compose(
-        me.createPlayerWithKeyUpdateStream(),
-        // Simulate a lag time for the dynamics to ramp up and down.
-        frp.fold<number, PlayerUpdate>((accum, pu) => {
-            const target = frp.snapshot(dynamicBrakeCommand);
-            const maxChangePerS = 0.25;
-            if (target < accum) {
-                return Math.max(accum - maxChangePerS * pu.dt, target);
-            } else if (target > accum) {
-                return Math.min(accum + maxChangePerS * pu.dt, target);
-            } else {
-                return target;
-            }
-        }, 0),
-        // Physics are calibrated for a 12-car train.
-        frp.map((v: number) => (v * frp.snapshot(nMultipleUnits)) / 12)
+        traction$,
+        frp.map(state => state.dynamicBrake)
     );
-    // Blend air brakes when in the service range and account for the emergency
-    // brake latch.
+    // Apply the traction model's blended air brakes when in the service range
+    // and account for the emergency brake latch.
     const airBrake$ = frp.compose(
         brakeCommandAndEvents$,
         me.foldAfterSettled(
@@ -817,7 +1135,7 @@ const me = new FrpEngine(() => {
                     if (brakes === BrakeType.None) {
                         return 0;
                     } else if (brakes !== BrakeType.Autostart && brakes[0] === BrakeType.Service) {
-                        return airBrakeServiceRange(frp.snapshot(speedoMph) * c.mph.toMps, brakes[1]);
+                        return frp.snapshot(tractionState)?.trainBrake ?? 0;
                     } else {
                         return accum;
                     }
@@ -830,17 +1148,18 @@ const me = new FrpEngine(() => {
         frp.hub()
     );
     throttle$(cv => {
-        me.rv.SetControlValue("Regulator", 0, cv);
+        ctl.set(me, controls.regulator, cv);
     });
     reverser$(cv => {
-        me.rv.SetControlValue("Reverser", 0, cv);
+        ctl.set(me, controls.reverser, cv);
     });
     dynamicBrake$(cv => {
-        me.rv.SetControlValue("DynamicBrake", 0, cv);
+        ctl.set(me, controls.dynamicBrake, cv);
     });
     airBrake$(cv => {
-        me.rv.SetControlValue("TrainBrakeControl", 0, cv);
+        ctl.set(me, controls.trainBrakeControl, cv);
     });
+    const airBrake = frp.stepper(airBrake$, 0);
 
     // Ensure consistent states for the startup (Z) and emergency brake
     // (Backspace) controls.
@@ -851,13 +1170,13 @@ const me = new FrpEngine(() => {
     );
     startupState$(([from, to]) => {
         if (!from && to) {
-            me.rv.SetControlValue("VirtualStartup", 0, 1);
+            ctl.set(me, controls.virtualStartup, 1);
         } else if (from && !to) {
-            me.rv.SetControlValue("VirtualStartup", 0, -1);
+            ctl.set(me, controls.virtualStartup, -1);
         }
     });
     emergencyPullCordEvent$(_ => {
-        me.rv.SetControlValue("VirtualEmergencyBrake", 0, 0); // Reset if tripped
+        ctl.set(me, controls.virtualEmergencyBrake, 0); // Reset if tripped
     });
 
     // Speedometer
@@ -874,9 +1193,9 @@ const me = new FrpEngine(() => {
         } else {
             [[h, t, u]] = digits;
         }
-        me.rv.SetControlValue("SpeedoHundreds", 0, h);
-        me.rv.SetControlValue("SpeedoTens", 0, t);
-        me.rv.SetControlValue("SpeedoUnits", 0, u);
+        ctl.set(me, controls.speedoHundreds, h);
+        ctl.set(me, controls.speedoTens, t);
+        ctl.set(me, controls.speedoUnits, u);
     });
 
     // Headlight control
@@ -911,7 +1230,7 @@ const me = new FrpEngine(() => {
     );
     const leadHeadlights$ = frp.compose(
         me.createPlayerWithKeyUpdateStream(),
-        me.mapGetCvStream("Headlights", 0),
+        ctl.mapGetStream(me, controls.headlights),
         frp.map(readHeadlightSetting)
     );
     const helperHeadlights$ = frp.compose(
@@ -951,10 +1270,7 @@ const me = new FrpEngine(() => {
     );
     const leadMarkers$ = frp.compose(
         me.createPlayerWithKeyUpdateStream(),
-        frp.map(_ => {
-            const cv = me.rv.GetControlValue("Taillights", 0) as number;
-            return cv > 0.5;
-        })
+        frp.map(_ => ctl.get(me, controls.taillights) ?? false)
     );
     const helperMarkers$ = frp.compose(
         me.createPlayerWithoutKeyUpdateStream(),
@@ -1019,18 +1335,13 @@ const me = new FrpEngine(() => {
         me.rv.ActivateNode("SL_doors_R", on);
     });
 
-    // Cab dome light
+    // Cab dome light, which the trailing units follow through the train line
     const cabLight = new rw.Light("Cablight");
     const noCabLight$ = frp.compose(
         me.createAiUpdateStream(),
-        frp.merge(me.createPlayerWithoutKeyUpdateStream()),
         frp.map(_ => false)
     );
-    const playerCabLight$ = frp.compose(
-        me.createPlayerWithKeyUpdateStream(),
-        me.mapGetCvStream("Cablight", 0),
-        frp.map(v => v > 0.5)
-    );
+    const playerCabLight$ = frp.compose(me.createPlayerUpdateStream(), ctl.mapGetStream(me, controls.cabLight));
     const cabLightOn$ = frp.compose(noCabLight$, frp.merge(playerCabLight$), rejectRepeats());
     cabLightOn$(on => {
         cabLight.Activate(on);
@@ -1097,7 +1408,7 @@ const me = new FrpEngine(() => {
     const playerBrakeLight$ = frp.compose(
         me.createPlayerUpdateStream(),
         frp.map(_ => {
-            const brakeCylPsi = me.rv.GetControlValue("TrainBrakeCylinderPressurePSI", 0) as number;
+            const brakeCylPsi = ctl.get(me, controls.brakeCylinderPsi) ?? 0;
             if (brakeCylPsi > 34) {
                 return BrakeLight.Amber;
             } else if (brakeCylPsi > 11) {
@@ -1127,7 +1438,7 @@ const me = new FrpEngine(() => {
     const leadWiperUpdate$ = frp.compose(
         me.createPlayerWithKeyUpdateStream(),
         frp.map((pu): WiperUpdate => {
-            const cv = me.rv.GetControlValue("Wipers", 0) as number;
+            const cv = ctl.get(me, controls.wipers) ?? 0;
             return [readWiperSetting(cv), pu.dt];
         })
     );
@@ -1152,28 +1463,28 @@ const me = new FrpEngine(() => {
     );
     wiperPosition$(pos => {
         me.rv.SetTime("ext_wipers", pos);
-        me.rv.SetControlValue("WipersPosition", 0, pos);
+        ctl.set(me, controls.wipersPosition, pos);
     });
 
     // Sync virtual and in-cab wiper controls.
     const hudWiperChange$ = frp.compose(
-        me.createOnCvChangeStreamFor("VirtualWipers", 0),
+        ctl.createOnChangeStream(me, controls.virtualWipers),
         frp.filter(cv => cv <= 0 || cv >= 1),
         frp.map(cv => cv >= 1)
     );
     const cabWiperChange$ = frp.compose(
-        me.createOnCvChangeStreamFor("Wipers", 0),
+        ctl.createOnChangeStream(me, controls.wipers),
         frp.map(cv => readWiperSetting(cv))
     );
     hudWiperChange$(on => {
-        me.rv.SetControlValue("Wipers", 0, on ? 0.5 : 0); // medium/off
+        ctl.set(me, controls.wipers, on ? 0.5 : 0); // medium/off
     });
     cabWiperChange$(setting => {
-        me.rv.SetControlValue("VirtualWipers", 0, setting === false ? 0 : 1);
+        ctl.set(me, controls.virtualWipers, setting === false ? 0 : 1);
     });
 
     // Ambient sounds (HVAC, etc.)
-    me.rv.SetControlValue("AmbientSound", 0, 1);
+    ctl.set(me, controls.ambientSound, true);
 
     // Master controller and reverser positions default to coast and neutral,
     // which isn't allowed by the initial interlocking state. Mute clicks for
@@ -1181,7 +1492,7 @@ const me = new FrpEngine(() => {
     const setupMuteS = 1;
     const insideCab$ = frp.compose(
         me.createOnCameraStream(),
-        frp.map(vc => vc === VehicleCamera.FrontCab)
+        frp.map(vc => vc === VehicleCamera.FrontCab || vc === VehicleCamera.RearCab)
     );
     const insideCab = frp.stepper(insideCab$, false);
     const isSetupInsideCab$ = frp.compose(
@@ -1199,25 +1510,75 @@ const me = new FrpEngine(() => {
     );
     const enableControlSounds$ = frp.compose(isSetupInsideCab$, frp.merge(isNotSetup$), rejectRepeats());
     enableControlSounds$(on => {
-        me.rv.SetControlValue("IsPlayerControl", 0, on ? 1 : 0);
+        ctl.set(me, controls.isPlayerControl, on);
     });
 
-    // Force the pantograph on to allow driving on routes with overhead electrification.
-    me.createPlayerWithKeyUpdateStream()(_ => {
-        me.rv.SetControlValue("PantographControl", 0, 1);
-        me.rv.SetControlValue("VirtualPantographControl", 0, 0);
+    // Raise the pantograph when the power collection subsystem calls for it.
+    power$(state => {
+        ctl.set(me, controls.pantograph, state.pantograph);
+        ctl.set(me, controls.virtualPantograph, false);
+    });
+    // Keep the trailing units in sync with the lead cab. They copy the lead
+    // unit's settings to their own controls, so the settings also carry over
+    // when the player changes ends.
+    const pantographLine = new trainline.TrainlineChannel(me, trainline.pantograph);
+    sendOnTrainline(me, pantographLine, trainline.pantograph, () => frp.snapshot(powerState)?.pantograph ?? true);
+    pantographLine.createOnReceiveStream()(up => {
+        ctl.set(me, controls.pantograph, up);
+    });
+    // Door sides are sent as seen facing the direction of travel, so that
+    // units that face the other way open their doors on the same side of the
+    // train.
+    const sensedDirection = frp.stepper(
+        frp.compose(
+            me.createPlayerUpdateStream(),
+            frp.map(pu => pu.direction)
+        ),
+        SensedDirection.None
+    );
+    const doorsLine = new trainline.TrainlineChannel(me, trainline.doors);
+    sendOnTrainline(me, doorsLine, trainline.doors, () =>
+        trainline.orientDoors(
+            [ctl.get(me, controls.doorsOpenCloseLeft) ?? false, ctl.get(me, controls.doorsOpenCloseRight) ?? false],
+            frp.snapshot(sensedDirection)
+        )
+    );
+    doorsLine.createOnReceiveStream()(doors => {
+        const [l, r] = trainline.orientDoors(doors, frp.snapshot(sensedDirection));
+        ctl.set(me, controls.doorsOpenCloseLeft, l);
+        ctl.set(me, controls.doorsOpenCloseRight, r);
+    });
+    const headlightsLine = new trainline.TrainlineChannel(me, trainline.headlights);
+    sendOnTrainline(me, headlightsLine, trainline.headlights, () => ctl.get(me, controls.headlights) ?? 0);
+    headlightsLine.createOnReceiveStream()(cv => {
+        ctl.set(me, controls.headlights, cv);
+    });
+    const cabLightLine = new trainline.TrainlineChannel(me, trainline.cabLight);
+    sendOnTrainline(me, cabLightLine, trainline.cabLight, () => ctl.get(me, controls.cabLight) ?? false);
+    cabLightLine.createOnReceiveStream()(on => {
+        ctl.set(me, controls.cabLight, on);
+    });
+    const brakesLine = new trainline.TrainlineChannel(me, trainline.brakes);
+    sendOnTrainline(me, brakesLine, trainline.brakes, () => frp.snapshot(airBrake));
+    brakesLine.createOnReceiveStream()(cv => {
+        ctl.set(me, controls.trainBrakeControl, cv);
     });
 
     // Process OnControlValueChange events.
     const onCvChange$ = frp.compose(
         me.createOnCvChangeStream(),
-        frp.reject(([name]) => name === "MasterKey" || name === "UserVirtualReverser" || name === "ThrottleAndBrake")
+        frp.reject(
+            ([name]) =>
+                name === controls.masterKey.name ||
+                name === controls.userVirtualReverser.name ||
+                name === controls.throttleAndBrake.name
+        )
     );
     onCvChange$(([name, index, value]) => me.rv.SetControlValue(name, index, value));
 
     // Sync headlight controls.
     const setVirtualHeadlights$ = frp.compose(
-        me.createOnCvChangeStreamFor("Headlights", 0),
+        ctl.createOnChangeStream(me, controls.headlights),
         frp.filter(v => v === Math.floor(v)),
         frp.map(readHeadlightSetting),
         frp.map(hl => {
@@ -1232,10 +1593,10 @@ const me = new FrpEngine(() => {
         })
     );
     setVirtualHeadlights$(v => {
-        me.rv.SetControlValue("VirtualHeadlights", 0, v);
+        ctl.set(me, controls.virtualHeadlights, v);
     });
     const setHeadlights$ = frp.compose(
-        me.createOnCvChangeStreamFor("VirtualHeadlights", 0),
+        ctl.createOnChangeStream(me, controls.virtualHeadlights),
         frp.map(cv => {
             switch (cv) {
                 case 2:
@@ -1261,33 +1622,56 @@ const me = new FrpEngine(() => {
         })
     );
     setHeadlights$(v => {
-        me.rv.SetControlValue("Headlights", 0, v);
+        ctl.set(me, controls.headlights, v);
     });
 
     // Enable updates.
     me.activateUpdatesEveryFrame(true);
 });
 me.setup();
-
-function createCutInBehavior(e: FrpEngine, name: string, index: number) {
-    return () => (e.rv.GetControlValue(name, index) as number) > 0.5;
+if (recordTrace) {
+    trace.record();
 }
 
-function airBrakeServiceRange(speedMps: number, application: number) {
-    const aSpeedMps = Math.abs(speedMps);
-    const transitionMph: [start: number, end: number] = [1.341, 3.576]; // from 3 to 8 mph
-    const minService = 0.048; // 13 psi BC
-    const maxService = 0.137; // 43 psi BC
-    const floor = 0.035; // 8 psi BC
-    let proportion;
-    if (aSpeedMps < transitionMph[0]) {
-        proportion = 1;
-    } else if (aSpeedMps < transitionMph[1]) {
-        proportion = (-1 / (transitionMph[1] - transitionMph[0])) * (aSpeedMps - transitionMph[1]);
-    } else {
-        proportion = 0;
+/**
+ * Designate a numbered series of control values to save a safety system's
+ * state to. They are defined in M3_SaveControls.xml, which needs to be merged
+ * into the engine blueprint.
+ */
+function createSaveSlots(prefix: string, n: number) {
+    let slots: ControlSlot[] = [];
+    for (let i = 0; i < n; i++) {
+        slots.push([`${prefix}${i}`, 0]);
     }
-    return Math.max((((maxService - minService) / (1 - 0)) * (application - 0) + minService) * proportion, floor);
+    return slots;
+}
+
+/**
+ * Broadcast one of the lead unit's settings to the rest of the consist
+ * whenever it changes. The setting is also resent whenever the couplings
+ * change so that newly coupled units receive it.
+ */
+function sendOnTrainline<T>(
+    e: FrpEngine,
+    channel: trainline.TrainlineChannel<T>,
+    codec: trainline.MessageCodec<T>,
+    read: () => T
+) {
+    const send$ = frp.compose(
+        e.createPlayerWithKeyUpdateStream(),
+        frp.map(pu => {
+            const [front, rear] = pu.couplings;
+            return `${front ? 1 : 0}${rear ? 1 : 0}${codec.encode(read())}`;
+        }),
+        rejectRepeats()
+    );
+    send$(_ => {
+        channel.send(read());
+    });
+}
+
+function createCutInBehavior(e: FrpEngine, control: ctl.Control<boolean>) {
+    return e.memoize(() => ctl.get(e, control) ?? false);
 }
 
 function readHeadlightSetting(cv: number) {
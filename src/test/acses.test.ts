@@ -0,0 +1,156 @@
+import * as acses from "../lib/acses";
+import * as braking from "../lib/braking";
+import * as c from "../lib/constants";
+import { FrpSource } from "../lib/frp-entity";
+import { FrpEngine } from "../lib/frp-engine";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+test.each([
+    ["tsr30at2000for500", { speedMph: 30, distanceFt: 2000, lengthFt: 500 }],
+    ["tsr10at0for1200", { speedMph: 10, distanceFt: 0, lengthFt: 1200 }],
+    ["tsr30", undefined],
+    ["sig1speed80", undefined],
+])("message %s is a temporary speed restriction", (msg, tsr) => {
+    const restriction = acses.toTemporarySpeedRestriction(msg);
+    if (tsr === undefined) {
+        expect(restriction).toBeUndefined();
+    } else {
+        expect(restriction?.speedMps).toBeCloseTo(tsr.speedMph * c.mph.toMps);
+        expect(restriction?.distanceM).toBeCloseTo(tsr.distanceFt * c.ft.toM);
+        expect(restriction?.lengthM).toBeCloseTo(tsr.lengthFt * c.ft.toM);
+    }
+});
+
+/**
+ * Boot an engine with a single ACSES instance and return its state updates,
+ * along with a source for temporary speed restrictions.
+ */
+function createAcses() {
+    const states: acses.AcsesState[] = [];
+    const restrictionSource = new FrpSource<acses.TemporarySpeedRestriction>();
+    const e = new FrpEngine(() => {
+        const acses$ = acses.create(
+            e,
+            acses.lirrProfile,
+            false,
+            true,
+            true,
+            true,
+            braking.nominalPerformance,
+            [],
+            restrictionSource.createStream()
+        );
+        acses$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("SpeedometerMPH", 0);
+    host.defaultSpeedLimitMps = 80 * c.mph.toMps;
+    host.initialise();
+    return { states, restrictionSource };
+}
+
+/**
+ * Run the simulator while keeping the speedometer in sync with the speed.
+ */
+function run(seconds: number) {
+    for (let i = 0; i < seconds * 10; i++) {
+        host.setControlValue("SpeedometerMPH", 0, host.speedMps * c.mps.toMph);
+        host.update(0.1);
+    }
+}
+
+function trackSpeedMph(state: acses.AcsesState) {
+    const trackSpeed = state.trackSpeed;
+    return typeof trackSpeed === "number" ? undefined : trackSpeed[1] * c.mps.toMph;
+}
+
+test("enforce the braking curve on the approach to a restriction", () => {
+    const { states } = createAcses();
+    host.speedMps = 60 * c.mph.toMps;
+    run(1);
+    host.signalMessage("tsr30at3000for500");
+    run(1);
+    expect(states[states.length - 1]).toMatchObject({ alarm: false, overspeed: false });
+
+    run(10);
+    expect(states[states.length - 1]).toMatchObject({ alarm: true, overspeed: true });
+});
+
+test("display the restriction until the rear of the train clears it", () => {
+    const { states, restrictionSource } = createAcses();
+    host.speedMps = 20 * c.mph.toMps;
+    run(1);
+    expect(trackSpeedMph(states[states.length - 1])).toBeCloseTo(80);
+
+    restrictionSource.call({ speedMps: 25 * c.mph.toMps, distanceM: 0, lengthM: 100 });
+    run(1);
+    expect(trackSpeedMph(states[states.length - 1])).toBeCloseTo(25);
+
+    // 100 m of restriction plus 26 m of train
+    run(15);
+    expect(trackSpeedMph(states[states.length - 1])).toBeCloseTo(80);
+});
+
+test("report the target speed and distance of an upcoming restriction", () => {
+    const { states } = createAcses();
+    host.speedMps = 50 * c.mph.toMps;
+    run(1);
+    expect(states[states.length - 1].target).toBeUndefined();
+    expect((states[states.length - 1].permittedSpeedMps as number) * c.mps.toMph).toBeCloseTo(83);
+
+    host.addSpeedPost(host.positionM + 1000, 30 * c.mph.toMps);
+    run(1);
+    const state = states[states.length - 1];
+    expect((state.target?.speedMps as number) * c.mps.toMph).toBeCloseTo(30);
+    expect(state.target?.distanceM).toBeGreaterThan(1000 - 25);
+    expect(state.target?.distanceM).toBeLessThan(1000);
+    expect(state.permittedSpeedMps as number).toBeLessThan(83 * c.mph.toMps);
+});
+
+test("report nothing while cut out", () => {
+    const states: acses.AcsesState[] = [];
+    const e = new FrpEngine(() => {
+        const acses$ = acses.create(e, acses.lirrProfile, false, true, false, true, braking.nominalPerformance);
+        acses$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("SpeedometerMPH", 0);
+    host.initialise();
+    run(1);
+    expect(states[states.length - 1]).toMatchObject({
+        trackSpeed: acses.AcsesSpeed.CutOut,
+        target: undefined,
+        permittedSpeedMps: undefined,
+    });
+});
+
+test.each([
+    [acses.lirrProfile, 83],
+    [acses.metroNorthProfile, 82],
+])("apply the alert margin of the profile", (profile, permittedMph) => {
+    const states: acses.AcsesState[] = [];
+    const e = new FrpEngine(() => {
+        const acses$ = acses.create(e, profile, false, true, true, true, braking.nominalPerformance);
+        acses$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("SpeedometerMPH", 0);
+    host.defaultSpeedLimitMps = 80 * c.mph.toMps;
+    host.initialise();
+    run(1);
+    expect((states[states.length - 1].permittedSpeedMps as number) * c.mps.toMph).toBeCloseTo(permittedMph);
+});
@@ -0,0 +1,112 @@
+import * as adu from "../lib/adu";
+import * as cs from "../lib/cabsignals";
+import * as c from "../lib/constants";
+import { FrpSource } from "../lib/frp-entity";
+import { FrpEngine } from "../lib/frp-engine";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+test.each([
+    [cs.AmtrakAspect.Restricting, 20],
+    [cs.AmtrakAspect.ApproachMedium45, 45],
+    [cs.AmtrakAspect.CabSpeed80, 80],
+    [cs.AmtrakAspect.Clear150, 150],
+])("speed limit for aspect %i is %i mph", (aspect, speedMph) => {
+    expect(adu.toSpeedLimitMps(aspect) * c.mps.toMph).toBeCloseTo(speedMph);
+});
+
+/**
+ * Boot an engine with a single ADU instance and return its state updates,
+ * along with controls for the aspect and the engineer's inputs.
+ */
+function createAdu(aspect: cs.AmtrakAspect) {
+    const states: adu.AduState[] = [];
+    const inputs = { acknowledge: false, suppression: false };
+    const aspectSource = new FrpSource<cs.AmtrakAspect>();
+    const e = new FrpEngine(() => {
+        const adu$ = adu.create(
+            e,
+            aspectSource.createStream(),
+            () => inputs.acknowledge,
+            () => inputs.suppression,
+            true,
+            true
+        );
+        adu$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("SpeedometerMPH", 0);
+    host.initialise();
+    aspectSource.call(aspect);
+    return { states, inputs, aspectSource };
+}
+
+function run(seconds: number) {
+    for (let i = 0; i < seconds * 10; i++) {
+        host.setControlValue("SpeedometerMPH", 0, host.speedMps * c.mps.toMph);
+        host.update(0.1);
+    }
+}
+
+test("silence a downgrade with an acknowledgement when under the limit", () => {
+    const { states, inputs, aspectSource } = createAdu(cs.AmtrakAspect.Clear125);
+    host.speedMps = 40 * c.mph.toMps;
+    run(1);
+    aspectSource.call(cs.AmtrakAspect.CabSpeed60);
+    run(1);
+    expect(states[states.length - 1]).toMatchObject({ alarm: true, overspeed: false });
+
+    inputs.acknowledge = true;
+    run(1);
+    expect(states[states.length - 1]).toMatchObject({ alarm: false, penaltyBrake: false });
+});
+
+test("apply a penalty when an overspeed is not suppressed", () => {
+    const { states, inputs } = createAdu(cs.AmtrakAspect.Approach);
+    host.speedMps = 50 * c.mph.toMps;
+    run(1);
+    inputs.acknowledge = true;
+    run(1);
+    expect(states[states.length - 1]).toMatchObject({ alarm: false, overspeed: true, penaltyBrake: false });
+
+    run(adu.countdownS);
+    expect(states[states.length - 1].penaltyBrake).toBe(true);
+});
+
+test("hold a suppression until under the limit", () => {
+    const { states, inputs } = createAdu(cs.AmtrakAspect.Approach);
+    host.speedMps = 50 * c.mph.toMps;
+    run(1);
+    inputs.acknowledge = true;
+    inputs.suppression = true;
+    run(1);
+    expect(states[states.length - 1]).toMatchObject({ suppression: true, penaltyBrake: false });
+
+    host.speedMps = 25 * c.mph.toMps;
+    inputs.suppression = false;
+    run(1);
+    expect(states[states.length - 1]).toMatchObject({ suppression: false, overspeed: false, penaltyBrake: false });
+});
+
+test("apply a penalty when a suppression is released early", () => {
+    const { states, inputs } = createAdu(cs.AmtrakAspect.Approach);
+    host.speedMps = 50 * c.mph.toMps;
+    run(1);
+    inputs.acknowledge = true;
+    inputs.suppression = true;
+    run(1);
+    inputs.suppression = false;
+    run(1);
+    expect(states[states.length - 1].penaltyBrake).toBe(true);
+});
@@ -0,0 +1,99 @@
+import * as asc from "../lib/asc";
+import * as braking from "../lib/braking";
+import * as cs from "../lib/cabsignals";
+import * as c from "../lib/constants";
+import { FrpSource } from "../lib/frp-entity";
+import { FrpEngine } from "../lib/frp-engine";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+const oneThree = -1.3 * c.mph.toMps;
+const oneSeven = -1.7 * c.mph.toMps;
+
+test.each([
+    [cs.LirrAspect.Speed15, 80, undefined],
+    [cs.LirrAspect.Speed30, 29, oneThree],
+    [cs.LirrAspect.Speed30, 30, oneSeven],
+    [cs.LirrAspect.Speed40, 32, oneThree],
+    [cs.LirrAspect.Speed40, 33, oneSeven],
+    [cs.LirrAspect.Speed60, 56, oneThree],
+    [cs.LirrAspect.Speed60, 57, oneSeven],
+    [cs.LirrAspect.Speed70, 60, oneThree],
+    [cs.LirrAspect.Speed70, 61, oneSeven],
+    [cs.LirrAspect.Speed80, 67, oneThree],
+    [cs.LirrAspect.Speed80, 68, oneSeven],
+])("brake assurance rate for aspect %i at %i mph", (aspect, speedMph, rateMps2) => {
+    // Nudge the speed below the threshold to avoid unit conversion error.
+    const speedMps = (speedMph - 0.01) * c.mph.toMps;
+    expect(asc.toBrakeAssuranceRateMps2(aspect, speedMps)).toBe(rateMps2);
+});
+
+/**
+ * Boot an engine with a single ASC instance and return its state updates.
+ */
+function createAsc(aspect: cs.LirrAspect) {
+    let states: asc.AscState[] = [];
+    const aspectSource = new FrpSource<cs.LirrAspect>();
+    const e = new FrpEngine(() => {
+        const asc$ = asc.create(e, aspectSource.createStream(), false, true, true, true, braking.nominalPerformance);
+        asc$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("SpeedometerMPH", 0);
+    host.initialise();
+    aspectSource.call(aspect);
+    return states;
+}
+
+/**
+ * Run the simulator while keeping the speedometer in sync with the speed.
+ */
+function drive(seconds: number, accelMph: number) {
+    host.accelerationMps2 = Math.sign(host.speedMps) * accelMph * c.mph.toMps;
+    for (let i = 0; i < seconds * 10; i++) {
+        host.setControlValue("SpeedometerMPH", 0, host.speedMps * c.mps.toMph);
+        host.update(0.1);
+    }
+}
+
+test("light the brake assurance indicator when the rate is met", () => {
+    const states = createAsc(cs.LirrAspect.Speed30);
+    host.speedMps = 35 * c.mph.toMps;
+    drive(1, 0);
+    expect(states[states.length - 1]).toMatchObject({ brakes: asc.AscBrake.Penalty, brakeAssurance: false });
+
+    drive(2, -2);
+    const state = states[states.length - 1];
+    expect(state.brakeAssurance).toBe(true);
+    expect(state.atcForestall).toBe(false);
+});
+
+test("measure the rate while traveling in reverse", () => {
+    const states = createAsc(cs.LirrAspect.Speed30);
+    host.speedMps = -35 * c.mph.toMps;
+    drive(1, 0);
+    drive(2, -2);
+    expect(states[states.length - 1].brakeAssurance).toBe(true);
+});
+
+test("apply the emergency brakes when the rate is not met", () => {
+    const states = createAsc(cs.LirrAspect.Speed30);
+    host.speedMps = 35 * c.mph.toMps;
+    drive(1, 0);
+    drive(2, -1);
+    expect(states[states.length - 1]).toMatchObject({ brakeAssurance: false, atcForestall: true });
+
+    drive(8, -1);
+    expect(states[states.length - 1].brakes).toBe(asc.AscBrake.Emergency);
+});
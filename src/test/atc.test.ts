@@ -0,0 +1,117 @@
+import { AscBrake, AscState } from "../lib/asc";
+import * as atc from "../lib/atc";
+import * as cs from "../lib/cabsignals";
+import * as c from "../lib/constants";
+import { FrpSource } from "../lib/frp-entity";
+import { FrpEngine } from "../lib/frp-engine";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+test.each([
+    [cs.PulseCode.C_0_0, cs.MetroNorthAspect.Restricting],
+    [cs.PulseCode.C_75_0, cs.MetroNorthAspect.Medium],
+    [cs.PulseCode.C_120_0, cs.MetroNorthAspect.Limited],
+    [cs.PulseCode.C_180_0, cs.MetroNorthAspect.Normal],
+    [cs.PulseCode.C_420_0, cs.MetroNorthAspect.Restricting],
+])("pulse code %i is Metro-North aspect %i", (pc, aspect) => {
+    expect(cs.toMetroNorthAspect(pc)).toBe(aspect);
+});
+
+/**
+ * Boot an engine with a single ATC instance and return its state updates,
+ * along with controls for the aspect and the engineer's inputs.
+ */
+function createAtc(aspect: cs.MetroNorthAspect) {
+    const states: AscState[] = [];
+    const inputs = { acknowledge: false, coastOrBrake: true };
+    const aspectSource = new FrpSource<cs.MetroNorthAspect>();
+    const e = new FrpEngine(() => {
+        const atc$ = atc.create(
+            e,
+            aspectSource.createStream(),
+            () => inputs.acknowledge,
+            () => inputs.coastOrBrake,
+            true,
+            true
+        );
+        atc$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("SpeedometerMPH", 0);
+    host.initialise();
+    aspectSource.call(aspect);
+    return { states, inputs, aspectSource };
+}
+
+function run(seconds: number) {
+    for (let i = 0; i < seconds * 10; i++) {
+        host.setControlValue("SpeedometerMPH", 0, host.speedMps * c.mps.toMph);
+        host.update(0.1);
+    }
+}
+
+test("leave the Normal aspect unenforced", () => {
+    const { states } = createAtc(cs.MetroNorthAspect.Normal);
+    host.speedMps = 90 * c.mph.toMps;
+    run(10);
+    expect(states[states.length - 1]).toMatchObject({ brakes: AscBrake.None, alarm: false });
+});
+
+test("apply a penalty when a downgrade is not acknowledged", () => {
+    const { states, aspectSource } = createAtc(cs.MetroNorthAspect.Normal);
+    run(1);
+    aspectSource.call(cs.MetroNorthAspect.Limited);
+    run(atc.acknowledgeS - 1);
+    expect(states[states.length - 1]).toMatchObject({ brakes: AscBrake.None, alarm: true });
+
+    run(2);
+    expect(states[states.length - 1]).toMatchObject({ brakes: AscBrake.Penalty, alarm: true });
+});
+
+test("forestall an overspeed with acknowledgement and braking", () => {
+    const { states, inputs } = createAtc(cs.MetroNorthAspect.Medium);
+    host.speedMps = 40 * c.mph.toMps;
+    run(1);
+    expect(states[states.length - 1]).toMatchObject({ alarm: true, overspeed: true });
+
+    inputs.acknowledge = true;
+    run(1);
+    inputs.acknowledge = false;
+    expect(states[states.length - 1]).toMatchObject({ alarm: false, atcForestall: true });
+
+    host.speedMps = 25 * c.mph.toMps;
+    run(1);
+    expect(states[states.length - 1]).toMatchObject({ brakes: AscBrake.None, alarm: false, atcForestall: false });
+});
+
+test("apply a penalty when power is taken during a forestall", () => {
+    const { states, inputs } = createAtc(cs.MetroNorthAspect.Medium);
+    host.speedMps = 40 * c.mph.toMps;
+    run(1);
+    inputs.acknowledge = true;
+    run(1);
+    inputs.acknowledge = false;
+    inputs.coastOrBrake = false;
+    run(1);
+    expect(states[states.length - 1].brakes).toBe(AscBrake.Penalty);
+
+    // Release only after stopping.
+    inputs.coastOrBrake = true;
+    inputs.acknowledge = true;
+    run(1);
+    expect(states[states.length - 1].brakes).toBe(AscBrake.Penalty);
+    host.speedMps = 0;
+    run(1);
+    expect(states[states.length - 1].brakes).toBe(AscBrake.None);
+});
@@ -0,0 +1,23 @@
+import { BlueprintControl } from "../lib/controls";
+
+/**
+ * Extract the control values defined by an engine blueprint that has been
+ * converted to XML by serz.exe.
+ * @param xml The contents of the blueprint XML file.
+ * @returns The controls, in the order they are defined.
+ */
+export function parseBlueprintControls(xml: string): BlueprintControl[] {
+    const controls: BlueprintControl[] = [];
+    const blocks = xml.split(/<ControlName\b[^>]*>/).slice(1);
+    for (const block of blocks) {
+        const name = block.substring(0, block.indexOf("<")).trim();
+        const min = block.match(/<MinimumValue\b[^>]*>([^<]*)</);
+        const max = block.match(/<MaximumValue\b[^>]*>([^<]*)</);
+        controls.push({
+            name,
+            min: min !== null ? parseFloat(min[1]) : 0,
+            max: max !== null ? parseFloat(max[1]) : 0,
+        });
+    }
+    return controls;
+}
@@ -0,0 +1,87 @@
+import * as braking from "../lib/braking";
+import { FrpEngine } from "../lib/frp-engine";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+const pneumatic: braking.BrakingModel = { brakes: braking.BrakeSystem.Pneumatic, designMassPerMKg: 2000 };
+const electropneumatic: braking.BrakingModel = { brakes: braking.BrakeSystem.Electropneumatic, designMassPerMKg: 2000 };
+const carLengthM = 26;
+const carMassKg = 50e3;
+
+function consistOf(nCars: number, gradientPct: number = 0): braking.ConsistData {
+    return { lengthM: nCars * carLengthM, massKg: nCars * carMassKg, gradientPct };
+}
+
+test("take longer to apply the brakes on a longer pneumatic train", () => {
+    const short = braking.toPerformance(pneumatic, consistOf(2));
+    const long = braking.toPerformance(pneumatic, consistOf(12));
+    expect(short.rateFactor).toBeCloseTo(1);
+    expect(long.rateFactor).toBeCloseTo(1);
+    expect(long.buildUpS).toBeGreaterThan(short.buildUpS);
+    expect(braking.toPerformance(electropneumatic, consistOf(12)).buildUpS).toBe(0);
+});
+
+test("brake more slowly when heavier than the design mass", () => {
+    const loaded = { ...consistOf(4), massKg: 4 * 65e3 };
+    expect(braking.toPerformance(pneumatic, loaded).rateFactor).toBeCloseTo((4 * carLengthM * 2000) / (4 * 65e3));
+});
+
+test.each([
+    [0, 1],
+    [-1, 0.8],
+    [1, 1.2],
+    [-3, 0.3],
+])("gradient of %d%% has a braking rate factor of %d", (gradientPct, factor) => {
+    expect(braking.gradientFactor(gradientPct)).toBeCloseTo(factor);
+});
+
+test("average the gradient under the whole train", () => {
+    const performances: braking.BrakingPerformance[] = [];
+    const e = new FrpEngine(() => {
+        const braking$ = braking.create(e, electropneumatic);
+        braking$(performance => performances.push(performance));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.consistLengthM = 100;
+    host.consistTotalMassKg = 100e3;
+    host.speedMps = 10;
+    host.gradientPct = 0;
+    host.initialise();
+    host.run(10);
+    expect(performances[performances.length - 1].rateFactor).toBeCloseTo(1);
+
+    // Half of the train is on a 2% downgrade, so the mean is 1%.
+    host.gradientPct = -2;
+    host.run(5);
+    expect(performances[performances.length - 1].rateFactor).toBeCloseTo(braking.gradientFactor(-1));
+
+    host.run(5);
+    expect(performances[performances.length - 1].rateFactor).toBeCloseTo(braking.gradientFactor(-2));
+});
+
+test("merge the gradient samples of a stopped train", () => {
+    let samples: braking.GradientSample[] = [[10, -2]];
+    for (let i = 0; i < 1000; i++) {
+        samples = braking.addGradientSample(samples, 0, -2, 100);
+    }
+    expect(samples).toStrictEqual([[10, -2]]);
+});
+
+test("limit the number of gradient samples", () => {
+    let samples: braking.GradientSample[] = [];
+    for (let i = 0; i < 1000; i++) {
+        samples = braking.addGradientSample(samples, 10, 1, 100e3);
+    }
+    expect(samples.length).toBe(256);
+});
@@ -0,0 +1,76 @@
+import * as cs from "../lib/cabsignals";
+import * as c from "../lib/constants";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+test.each([
+    ["sig1speed150", cs.PulseCode.C_180_180],
+    ["sig7speed60", cs.PulseCode.C_420_0],
+    ["sig7stop500", cs.PulseCode.C_0_0],
+    ["sig3", cs.PulseCode.C_270_0],
+    ["M11", cs.PulseCode.C_120_0],
+    ["N15", cs.PulseCode.C_0_0],
+    ["hello", undefined],
+])("message %s is pulse code %s", (msg, pc) => {
+    expect(cs.toPulseCode(msg)).toBe(pc);
+});
+
+test.each([
+    ["sig1speed80", false],
+    ["sig2", false],
+    ["M10", false],
+    ["hello", undefined],
+])("message %s has positive stop %s", (msg, distanceM) => {
+    expect(cs.toPositiveStopDistanceM(msg)).toBe(distanceM);
+});
+
+test("decode speed and positive stop distance from Phelan messages", () => {
+    expect(cs.phelanDecoder.decode("sig2speed45")?.speedMps).toBeCloseTo(45 * c.mph.toMps);
+    expect(cs.phelanDecoder.decode("sig7stop100")?.positiveStopDistanceM).toBeCloseTo(100 * c.ft.toM);
+    expect(cs.phelanDecoder.decode("M10")).toBeUndefined();
+});
+
+test("list the built-in decoders in order", () => {
+    expect(cs.getDecoderNames().slice(0, 3)).toEqual(["Phelan", "DTG NEC", "DTG Metro-North"]);
+});
+
+test("decode with only the enabled decoders", () => {
+    const decode = cs.createSignalMessageDecoder(["DTG Metro-North"]);
+    expect(decode("M12")?.pulseCode).toBe(cs.PulseCode.C_75_0);
+    expect(decode("sig1speed80")).toBeUndefined();
+});
+
+test("reject an unknown decoder", () => {
+    expect(() => cs.createSignalMessageDecoder(["Nonexistent"])).toThrow();
+});
+
+test("register a decoder for another signalling system", () => {
+    cs.registerDecoder({
+        name: "Test",
+        decode: msg => (msg === "clear" ? { pulseCode: cs.PulseCode.C_180_0 } : undefined),
+    });
+    expect(cs.getDecoderNames()).toContain("Test");
+    expect(cs.toPulseCode("clear")).toBe(cs.PulseCode.C_180_0);
+    expect(cs.createSignalMessageDecoder(["Phelan"])("clear")).toBeUndefined();
+});
+
+test("consult a registered decoder ahead of the built-in ones", () => {
+    cs.registerDecoder({
+        name: "Test sig",
+        decode: msg => (msg === "sig1fast" ? { pulseCode: cs.PulseCode.C_270_270 } : undefined),
+    });
+    expect(cs.getDecoderNames().indexOf("Test sig")).toBeLessThan(cs.getDecoderNames().indexOf("DTG NEC"));
+    expect(cs.toPulseCode("sig1fast")).toBe(cs.PulseCode.C_270_270);
+    expect(cs.toPulseCode("sig1speed100")).toBe(cs.PulseCode.C_270_270);
+    expect(cs.toPulseCode("sig2")).toBe(cs.PulseCode.C_120_120);
+});
@@ -0,0 +1,120 @@
+import * as ctl from "../lib/controls";
+import { FrpEngine } from "../lib/frp-engine";
+import { readFileSync } from "fs";
+import { parseBlueprintControls } from "./blueprint";
+import { m3BlueprintControls, m3Controls, m3DoorControls, m3Script } from "./m3";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+enum Status {
+    Off = -1,
+    CutOut = 0,
+    CutIn = 1,
+}
+
+const manifest = {
+    alarm: ctl.booleanControl("ATCAlarm"),
+    speed: ctl.numberControl("SignalSpeedLimit", 0, 80),
+    status: ctl.integerControl<Status>("ATCStatus", -1, 1),
+};
+
+const blueprint = `<?xml version="1.0" encoding="utf-8"?>
+<cEngineBlueprint xmlns:d="http://www.kuju.com/TnT/2003/Delta" d:version="1.0">
+    <cControlContainerBlueprint-cControlValueBlueprint d:id="1">
+        <ControlName d:type="cDeltaString">ATCAlarm</ControlName>
+        <MinimumValue d:type="sFloat32" d:precision="string">0</MinimumValue>
+        <MaximumValue d:type="sFloat32" d:precision="string">1</MaximumValue>
+    </cControlContainerBlueprint-cControlValueBlueprint>
+    <cControlContainerBlueprint-cControlValueBlueprint d:id="2">
+        <ControlName d:type="cDeltaString">SignalSpeedLimit</ControlName>
+        <MinimumValue d:type="sFloat32" d:precision="string">0</MinimumValue>
+        <MaximumValue d:type="sFloat32" d:precision="string">60</MaximumValue>
+    </cControlContainerBlueprint-cControlValueBlueprint>
+</cEngineBlueprint>`;
+
+test("parse the controls of a blueprint", () => {
+    expect(parseBlueprintControls(blueprint)).toEqual([
+        { name: "ATCAlarm", min: 0, max: 1 },
+        { name: "SignalSpeedLimit", min: 0, max: 60 },
+    ]);
+});
+
+test("report missing and out-of-range controls", () => {
+    expect(ctl.checkManifest(manifest, parseBlueprintControls(blueprint))).toEqual([
+        "SignalSpeedLimit is declared from 0 to 80, but the blueprint allows 0 to 60",
+        "ATCStatus is not defined by the blueprint",
+    ]);
+});
+
+test("read and write typed values", () => {
+    const e = new FrpEngine(() => {});
+    e.setup();
+    host.addControl("ATCAlarm", 0);
+    host.addControl("SignalSpeedLimit", 0);
+    host.addControl("ATCStatus", 0);
+    host.initialise();
+
+    ctl.set(e, manifest.alarm, true);
+    ctl.set(e, manifest.speed, 100);
+    ctl.set(e, manifest.status, Status.Off);
+    expect(host.getControlValue("ATCAlarm", 0)).toBe(1);
+    expect(host.getControlValue("SignalSpeedLimit", 0)).toBe(80);
+    expect(ctl.get(e, manifest.alarm)).toBe(true);
+    expect(ctl.get(e, manifest.status)).toBe(Status.Off);
+    expect(ctl.get(e, ctl.booleanControl("Nonexistent"))).toBeUndefined();
+});
+
+test("stream typed values", () => {
+    const values: boolean[] = [];
+    const e = new FrpEngine(() => {
+        ctl.createStream(e, manifest.alarm)(v => values.push(v));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("ATCAlarm", 0);
+    host.initialise();
+    host.run(1, 0.1);
+    host.setControlValue("ATCAlarm", 0, 1);
+    host.update(0.1);
+    expect(values[0]).toBe(false);
+    expect(values[values.length - 1]).toBe(true);
+});
+
+test("stream typed values only when the player changes them", () => {
+    const values: boolean[] = [];
+    const e = new FrpEngine(() => {
+        ctl.createOnChangeStream(e, manifest.alarm)(v => values.push(v));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("ATCAlarm", 0);
+    host.initialise();
+    host.run(1, 0.1);
+    expect(values).toStrictEqual([]);
+    host.playerSetControlValue("ATCAlarm", 1);
+    host.update(0.1);
+    expect(values).toStrictEqual([true]);
+});
+
+test("declare every control the M3 uses, as its blueprint defines it", () => {
+    let m3Manifest: ctl.ControlManifest = {};
+    host.addControls(m3Controls());
+    jest.isolateModules(() => {
+        ({ controls: m3Manifest } = jest.requireActual(m3Script));
+    });
+    const blueprint = [...m3BlueprintControls(), ...parseBlueprintControls(readFileSync(m3DoorControls, "utf-8"))];
+    expect(ctl.checkManifest(m3Manifest, blueprint)).toStrictEqual([]);
+
+    const declared = Object.keys(m3Manifest).map(key => m3Manifest[key].name);
+    expect(m3BlueprintControls().filter(({ name }) => !declared.includes(name))).toStrictEqual([]);
+});
@@ -0,0 +1,148 @@
+import * as c from "../lib/constants";
+import * as doors from "../lib/doors";
+import { FrpEngine } from "../lib/frp-engine";
+import { VehicleDoors } from "../lib/frp-vehicle";
+import * as rw from "../lib/railworks";
+import { m3Controls, m3Script } from "./m3";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+/**
+ * Boot an engine with a single door control instance and return its state
+ * updates, along with a log of the hooks that were called.
+ */
+function createDoors(enable: VehicleDoors, keyIn: boolean = true) {
+    const states: doors.DoorsState[] = [];
+    const hooks: string[] = [];
+    const e = new FrpEngine(() => {
+        const doors$ = doors.create(e, enable, () => keyIn, {
+            onChime: () => hooks.push("chime"),
+            onAnnouncement: ([l, r]) => hooks.push(`announce ${l} ${r}`),
+        });
+        doors$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("DoorsOpenCloseLeft", 0);
+    host.addControl("DoorsOpenCloseRight", 0);
+    host.initialise();
+    return { states, hooks };
+}
+
+test("enable only the selected side while stopped", () => {
+    const { states } = createDoors([false, true]);
+    host.run(1);
+    expect(states[states.length - 1].enabled).toStrictEqual([false, true]);
+
+    host.speedMps = 10 * c.mph.toMps;
+    host.run(1);
+    expect(states[states.length - 1].enabled).toStrictEqual([false, false]);
+});
+
+test("keep the doors closed on a side that is not enabled", () => {
+    const { states, hooks } = createDoors([false, true]);
+    host.run(1);
+    host.setControlValue("DoorsOpenCloseLeft", 0, 1);
+    host.run(1);
+    expect(host.getControlValue("DoorsOpenCloseLeft")).toBe(0);
+    expect(states[states.length - 1]).toMatchObject({ closedProven: true, tractionInterlock: false });
+    expect(hooks).toStrictEqual([]);
+
+    host.setControlValue("DoorsOpenCloseRight", 0, 1);
+    host.run(1);
+    expect(host.getControlValue("DoorsOpenCloseRight")).toBe(1);
+});
+
+test("keep the doors closed while the unit is keyed out", () => {
+    const { states } = createDoors([true, true], false);
+    host.run(1);
+    expect(states[states.length - 1].enabled).toStrictEqual([false, false]);
+
+    host.setControlValue("DoorsOpenCloseLeft", 0, 1);
+    host.run(1);
+    expect(host.getControlValue("DoorsOpenCloseLeft")).toBe(0);
+});
+
+test("keep the doors closed while the train is moving", () => {
+    const { states } = createDoors([true, true]);
+    host.speedMps = 10 * c.mph.toMps;
+    host.run(1);
+    host.setControlValue("DoorsOpenCloseLeft", 0, 1);
+    host.setControlValue("DoorsOpenCloseRight", 0, 1);
+    host.run(1);
+    expect(host.getControlValue("DoorsOpenCloseLeft")).toBe(0);
+    expect(host.getControlValue("DoorsOpenCloseRight")).toBe(0);
+    expect(states[states.length - 1].tractionInterlock).toBe(false);
+});
+
+test("interlock traction until the doors are proven closed", () => {
+    const { states, hooks } = createDoors([true, true]);
+    host.run(1);
+    expect(states[states.length - 1]).toMatchObject({ closedProven: true, tractionInterlock: false });
+
+    host.setControlValue("DoorsOpenCloseRight", 0, 1);
+    host.run(1);
+    expect(states[states.length - 1]).toMatchObject({ closedProven: false, tractionInterlock: true });
+    expect(hooks).toStrictEqual(["announce false true"]);
+
+    host.setControlValue("DoorsOpenCloseRight", 0, 0);
+    host.run(1);
+    expect(states[states.length - 1]).toMatchObject({ tractionInterlock: true, chime: true });
+    expect(hooks).toStrictEqual(["announce false true", "chime"]);
+
+    host.run(2);
+    expect(states[states.length - 1]).toMatchObject({ closedProven: true, tractionInterlock: false, chime: false });
+});
+
+/**
+ * Boot the M3 with the controls from its door blueprint fragment.
+ */
+function bootM3(doorControls: { [name: string]: number }) {
+    host.addControls({ ...m3Controls(), ...doorControls, Interlock: 3, ThrottleAndBrake: 0, UserVirtualReverser: 1 });
+    jest.isolateModules(() => {
+        jest.requireActual(m3Script);
+    });
+    host.initialise();
+    host.cameraEnter(rw.CameraEnterCabEnd.Front, rw.CameraEnterView.Cab);
+    host.run(2);
+}
+
+test("open the M3's doors on the enabled side and sound the chime as they close", () => {
+    bootM3({ DoorEnableLeft: 0, DoorEnableRight: 1, DoorChime: 0, DoorAnnouncement: 0 });
+    host.setControlValue("DoorsOpenCloseLeft", 0, 1);
+    host.run(1);
+    expect(host.getControlValue("DoorsOpenCloseLeft")).toBe(0);
+    expect(host.getControlValue("DoorAnnouncement")).toBe(0);
+
+    host.setControlValue("DoorsOpenCloseRight", 0, 1);
+    host.run(1);
+    expect(host.getControlValue("DoorsOpenCloseRight")).toBe(1);
+    expect(host.getControlValue("DoorAnnouncement")).toBe(1);
+
+    host.setControlValue("DoorsOpenCloseRight", 0, 0);
+    host.run(1);
+    expect(host.getControlValue("DoorChime")).toBe(1);
+    expect(host.getControlValue("DoorAnnouncement")).toBe(0);
+
+    host.run(3);
+    expect(host.getControlValue("DoorChime")).toBe(0);
+});
+
+test("enable both of the M3's doors without the door enable controls", () => {
+    bootM3({});
+    host.setControlValue("DoorsOpenCloseLeft", 0, 1);
+    host.setControlValue("DoorsOpenCloseRight", 0, 1);
+    host.run(1);
+    expect(host.getControlValue("DoorsOpenCloseLeft")).toBe(1);
+    expect(host.getControlValue("DoorsOpenCloseRight")).toBe(1);
+});
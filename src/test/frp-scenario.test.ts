@@ -0,0 +1,80 @@
+import { FrpScenario } from "../lib/frp-scenario";
+import * as rw from "../lib/railworks";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+function createAcknowledgeScenario() {
+    const scenario = new FrpScenario();
+    const alert$ = scenario.createOnEventStreamFor("ACSESAlert");
+    alert$(_ => {
+        const acknowledged = () => (rw.PlayerEngine.GetControlValue("AWSReset", 0) ?? 0) > 0.5;
+        scenario.beginConditionCheck("AckACSES", scenario.createTimedCondition(acknowledged, 6));
+    });
+    scenario.setup();
+    return scenario;
+}
+
+test("report only registered events as handled", () => {
+    let events: string[] = [];
+    const scenario = createAcknowledgeScenario();
+    scenario.createOnEventStream()(event => events.push(event));
+
+    expect(host.event("ACSESAlert")).toBe(true);
+    expect(host.event("Unknown")).toBe(false);
+    expect(events).toStrictEqual(["ACSESAlert", "Unknown"]);
+});
+
+test("pass a timed condition", () => {
+    host.addControl("AWSReset", 0);
+    createAcknowledgeScenario();
+    host.event("ACSESAlert");
+    host.run(3);
+    expect(host.conditions.get("AckACSES")).toBe(rw.ConditionStatus.NotYetMet);
+    host.setControlValue("AWSReset", 0, 1);
+    host.run(0.1);
+    expect(host.conditions.get("AckACSES")).toBe(rw.ConditionStatus.Succeeded);
+});
+
+test("fail a timed condition", () => {
+    host.addControl("AWSReset", 0);
+    createAcknowledgeScenario();
+    host.event("ACSESAlert");
+    host.run(7);
+    expect(host.conditions.get("AckACSES")).toBe(rw.ConditionStatus.Failed);
+});
+
+test("deliver deferred events", () => {
+    let fired = 0;
+    const scenario = new FrpScenario();
+    scenario.createOnEventStream()(_ => fired++);
+    scenario.setup();
+
+    expect(scenario.triggerDeferredEvent("Later", 2)).toBe(true);
+    expect(scenario.triggerDeferredEvent("Later", 2)).toBe(false);
+    host.run(1);
+    expect(fired).toBe(0);
+    host.run(1.5);
+    expect(fired).toBe(1);
+});
+
+test("answer conditions set by instructions", () => {
+    const scenario = new FrpScenario();
+    let done = false;
+    scenario.answerCondition("Done", () => (done ? rw.ConditionStatus.Succeeded : rw.ConditionStatus.NotYetMet));
+    scenario.setup();
+
+    expect(TestCondition("Done")).toBe(rw.ConditionStatus.NotYetMet);
+    expect(TestCondition("Other")).toBe(rw.ConditionStatus.NotYetMet);
+    done = true;
+    expect(TestCondition("Done")).toBe(rw.ConditionStatus.Succeeded);
+});
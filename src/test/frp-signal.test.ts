@@ -0,0 +1,63 @@
+import * as frp from "../lib/frp";
+import { ConsistPass, FrpSignal, JunctionStateChange, SignalMessage } from "../lib/frp-signal";
+import * as rw from "../lib/railworks";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+test("deliver signal callbacks as streams", () => {
+    let messages: SignalMessage[] = [];
+    let passes: ConsistPass[] = [];
+    let junctions: JunctionStateChange[] = [];
+    let ticks: number[] = [];
+    const sig = new FrpSignal(() => {
+        sig.createOnSignalMessageStreamFor(1)(msg => messages.push(msg));
+        sig.createOnConsistPassStream()(pass => passes.push(pass));
+        sig.createOnJunctionStateChangeStream()(change => junctions.push(change));
+        sig.createUpdateStream()(dt => ticks.push(dt));
+        sig.activateUpdatesEveryFrame(true);
+    });
+    sig.setup();
+    host.initialise();
+
+    host.signalLinkMessage(rw.SignalMessage.OccupationIncrement, "", rw.SignalDirection.Backward, 0);
+    host.signalLinkMessage(rw.SignalMessage.OccupationIncrement, "", rw.SignalDirection.Backward, 1);
+    host.consistPass(10, 30, -5, 15);
+    host.junctionStateChange("", rw.SignalDirection.Forward, 2);
+    host.run(0.2);
+
+    expect(messages).toStrictEqual([[rw.SignalMessage.OccupationIncrement, "", rw.SignalDirection.Backward, 1]]);
+    expect(passes).toStrictEqual([[10, 30, -5, 15, 0]]);
+    expect(junctions).toStrictEqual([[0, "", rw.SignalDirection.Forward, 2]]);
+    expect(ticks.length).toBe(2);
+});
+
+test("send a cab signal to a passing consist", () => {
+    const sig = new FrpSignal(() => {
+        const frontPassed$ = frp.compose(
+            sig.createOnConsistPassStream(),
+            frp.filter(([prevFrontDistM, , frontDistM]) => prevFrontDistM > 0 && frontDistM <= 0)
+        );
+        frontPassed$(_ => {
+            const state = sig.sig.GetNextSignalState(rw.SignalDirection.Forward);
+            const msg = state === rw.BasicSignalState.Go ? "sig1speed100" : "sig4";
+            sig.sig.SendConsistMessage(rw.ConsistMessage.SigmsgCustom, msg);
+        });
+    });
+    sig.setup();
+    host.initialise();
+
+    host.nextSignalState = rw.BasicSignalState.Warning;
+    host.consistPass(20, 45, 10, 35);
+    host.consistPass(10, 35, -1, 24);
+    expect(host.consistMessagesSent.map(([, content]) => content)).toStrictEqual(["sig4"]);
+});
@@ -0,0 +1,77 @@
+import * as frp from "../lib/frp";
+import { FrpSource } from "../lib/frp-entity";
+import { debounce, delay, interval, timeout } from "../lib/frp-extra";
+
+let clock: FrpSource<number>;
+let events: FrpSource<string>;
+
+beforeEach(() => {
+    clock = new FrpSource<number>();
+    events = new FrpSource<string>();
+});
+
+function tick(seconds: number, dt: number = 0.1) {
+    for (let i = 0; i < Math.round(seconds / dt); i++) {
+        clock.call(dt);
+    }
+}
+
+test("delay events", () => {
+    const values: string[] = [];
+    frp.compose(events.createStream(), delay(clock.createStream(), 1))(v => values.push(v));
+    events.call("a");
+    tick(0.5);
+    events.call("b");
+    tick(0.6);
+    expect(values).toStrictEqual(["a"]);
+    tick(0.5);
+    expect(values).toStrictEqual(["a", "b"]);
+});
+
+test("debounce a burst of events", () => {
+    const values: string[] = [];
+    frp.compose(events.createStream(), debounce(clock.createStream(), 1))(v => values.push(v));
+    events.call("a");
+    tick(0.5);
+    events.call("b");
+    tick(0.8);
+    expect(values).toStrictEqual([]);
+    tick(0.3);
+    expect(values).toStrictEqual(["b"]);
+    tick(2);
+    expect(values).toStrictEqual(["b"]);
+});
+
+test("time out when events stop arriving", () => {
+    const values: (string | undefined)[] = [];
+    frp.compose(events.createStream(), timeout(clock.createStream(), 1, undefined))(v => values.push(v));
+    tick(0.5);
+    events.call("a");
+    tick(0.8);
+    expect(values).toStrictEqual(["a"]);
+    tick(0.3);
+    expect(values).toStrictEqual(["a", undefined]);
+    tick(2);
+    expect(values).toStrictEqual(["a", undefined]);
+});
+
+test("fire at an interval", () => {
+    const values: number[] = [];
+    const dispose = interval(clock.createStream(), 0.25)(v => values.push(v));
+    tick(0.875, 0.125);
+    expect(values).toStrictEqual([1, 2, 3]);
+    tick(0.5, 0.5);
+    expect(values).toStrictEqual([1, 2, 3, 4, 5]);
+    dispose();
+    tick(1);
+    expect(values.length).toBe(5);
+});
+
+test("stop the clock when unsubscribed", () => {
+    const values: string[] = [];
+    const dispose = frp.compose(events.createStream(), delay(clock.createStream(), 1))(v => values.push(v));
+    events.call("a");
+    dispose();
+    tick(2);
+    expect(values).toStrictEqual([]);
+});
@@ -0,0 +1,234 @@
+import * as frp from "../lib/frp";
+import { FrpSource } from "../lib/frp-entity";
+import { combineLatest, finalize, pairwise, sample, startWith, switchMap, zip } from "../lib/frp-extra";
+
+test("unsubscribe from a source", () => {
+    const source = new FrpSource<number>();
+    let values: number[] = [];
+    const dispose = frp.compose(
+        source.createStream(),
+        frp.map(v => v * 2)
+    )(v => values.push(v));
+    source.call(1);
+    dispose();
+    source.call(2);
+    expect(values).toStrictEqual([2]);
+});
+
+test("unsubscribe from a source while it is calling back", () => {
+    const source = new FrpSource<number>();
+    let values: number[] = [];
+    const disposeA: frp.Unsubscribe = source.createStream()(v => {
+        values.push(v);
+        disposeA();
+        disposeB();
+    });
+    const disposeB = source.createStream()(v => values.push(-v));
+    source.call(1);
+    source.call(2);
+    expect(values).toStrictEqual([1]);
+});
+
+test("subscribe the same callback twice", () => {
+    const source = new FrpSource<number>();
+    let count = 0;
+    const next = (_: number) => count++;
+    const dispose = source.createStream()(next);
+    source.createStream()(next);
+    dispose();
+    source.call(0);
+    expect(count).toBe(1);
+});
+
+test("unsubscribe from both sides of a merge", () => {
+    const a = new FrpSource<number>();
+    const b = new FrpSource<string>();
+    let values: (number | string)[] = [];
+    const dispose = frp.compose(a.createStream(), frp.merge(b.createStream()))(v => values.push(v));
+    a.call(1);
+    b.call("b");
+    dispose();
+    a.call(2);
+    b.call("c");
+    expect(values).toStrictEqual([1, "b"]);
+});
+
+test("unsubscribe from the inner streams of a bind", () => {
+    const outer = new FrpSource<void>();
+    const inner = new FrpSource<number>();
+    let values: number[] = [];
+    const dispose = frp.compose(
+        outer.createStream(),
+        frp.bind(_ => inner.createStream())
+    )(v => values.push(v));
+    outer.call();
+    inner.call(1);
+    dispose();
+    inner.call(2);
+    expect(values).toStrictEqual([1]);
+});
+
+test("forward the events of every inner stream of a bind", () => {
+    const outer = new FrpSource<FrpSource<number>>();
+    const a = new FrpSource<number>();
+    const b = new FrpSource<number>();
+    let values: number[] = [];
+    const unsubscribe = frp.compose(
+        outer.createStream(),
+        frp.bind(source => source.createStream())
+    )(v => values.push(v));
+    outer.call(a);
+    a.call(1);
+    outer.call(b);
+    a.call(2);
+    b.call(3);
+    unsubscribe();
+    a.call(4);
+    b.call(5);
+    expect(values).toStrictEqual([1, 2, 3]);
+});
+
+test("share and release a hub subscription", () => {
+    const source = new FrpSource<number>();
+    const hubbed = frp.compose(
+        source.createStream(),
+        frp.fold((sum, v) => sum + v, 0),
+        frp.hub()
+    );
+    let a: number[] = [];
+    let b: number[] = [];
+    const disposeA = hubbed(v => a.push(v));
+    const disposeB = hubbed(v => b.push(v));
+    source.call(1);
+    disposeA();
+    source.call(2);
+    disposeB();
+    disposeB();
+    source.call(3);
+    expect(a).toStrictEqual([1]);
+    expect(b).toStrictEqual([1, 3]);
+
+    // The upstream fold restarts for a new subscriber.
+    let c: number[] = [];
+    hubbed(v => c.push(v));
+    source.call(4);
+    expect(c).toStrictEqual([4]);
+});
+
+test("stop recording a disposable stepper", () => {
+    const source = new FrpSource<number>();
+    const [behavior, dispose] = frp.disposableStepper(source.createStream(), 0);
+    source.call(1);
+    dispose();
+    source.call(2);
+    expect(frp.snapshot(behavior)).toBe(1);
+});
+
+test("run teardown functions with finalize", () => {
+    const source = new FrpSource<number>();
+    let tornDown = 0;
+    const dispose = frp.compose(
+        source.createStream(),
+        finalize(() => tornDown++)
+    )(_ => {});
+    expect(tornDown).toBe(0);
+    dispose();
+    expect(tornDown).toBe(1);
+});
+
+test("memoize a behavior until the clock ticks", () => {
+    let tick = 0;
+    let evaluations = 0;
+    let value = 1;
+    const memo = frp.memoize(
+        () => {
+            evaluations++;
+            return value;
+        },
+        () => tick
+    );
+    const sum = frp.liftN((a, b) => a + b, memo, memo);
+    expect(frp.snapshot(sum)).toBe(2);
+    value = 2;
+    expect(frp.snapshot(memo)).toBe(1);
+    expect(evaluations).toBe(1);
+
+    tick++;
+    expect(frp.snapshot(sum)).toBe(4);
+    expect(evaluations).toBe(2);
+});
+
+test("switch to the latest inner stream", () => {
+    const outer = new FrpSource<FrpSource<number>>();
+    const first = new FrpSource<number>();
+    const second = new FrpSource<number>();
+    let values: number[] = [];
+    const dispose = frp.compose(
+        outer.createStream(),
+        switchMap(source => source.createStream())
+    )(v => values.push(v));
+    outer.call(first);
+    first.call(1);
+    outer.call(second);
+    first.call(2);
+    second.call(3);
+    dispose();
+    second.call(4);
+    expect(values).toStrictEqual([1, 3]);
+});
+
+test("combine the latest values of two streams", () => {
+    const a = new FrpSource<number>();
+    const b = new FrpSource<string>();
+    let values: [number, string][] = [];
+    frp.compose(a.createStream(), combineLatest<number, string>(b.createStream()))(v => values.push(v));
+    a.call(1);
+    a.call(2);
+    b.call("x");
+    a.call(3);
+    expect(values).toStrictEqual([
+        [2, "x"],
+        [3, "x"],
+    ]);
+});
+
+test("sample a stream when a notifier fires", () => {
+    const source = new FrpSource<number>();
+    const notifier = new FrpSource<void>();
+    let values: number[] = [];
+    frp.compose(source.createStream(), sample(notifier.createStream()))(v => values.push(v));
+    notifier.call();
+    source.call(1);
+    source.call(2);
+    notifier.call();
+    notifier.call();
+    expect(values).toStrictEqual([2]);
+});
+
+test("zip two streams in order", () => {
+    const a = new FrpSource<number>();
+    const b = new FrpSource<string>();
+    let values: [number, string][] = [];
+    frp.compose(a.createStream(), zip<number, string>(b.createStream()))(v => values.push(v));
+    a.call(1);
+    a.call(2);
+    b.call("x");
+    b.call("y");
+    b.call("z");
+    expect(values).toStrictEqual([
+        [1, "x"],
+        [2, "y"],
+    ]);
+});
+
+test("start with an initial value and pair up values", () => {
+    const source = new FrpSource<number>();
+    let values: [number, number][] = [];
+    frp.compose(source.createStream(), startWith(0), pairwise())(v => values.push(v));
+    source.call(1);
+    source.call(2);
+    expect(values).toStrictEqual([
+        [0, 1],
+        [1, 2],
+    ]);
+});
@@ -0,0 +1,108 @@
+/**
+ * Fixtures for booting the M3 engine script in the simulator.
+ */
+
+import { BlueprintControl } from "../lib/controls";
+
+export const m3Script = "mod/Assets/DTG/M3EMUPack01/RailVehicles/Electric/M3/Scripts/M3_EngineScript";
+
+/**
+ * The blueprint fragment that defines the controls the M3 saves its state to.
+ */
+export const m3SaveControls = "src/mod/Assets/DTG/M3EMUPack01/RailVehicles/Electric/M3/Scripts/M3_SaveControls.xml";
+
+/**
+ * The blueprint fragment that defines the M3's door enable and sound controls.
+ */
+export const m3DoorControls = "src/mod/Assets/DTG/M3EMUPack01/RailVehicles/Electric/M3/Scripts/M3_DoorControls.xml";
+
+/**
+ * The controls the M3 engine script reads and writes, with their values at
+ * the start of a scenario and their ranges as defined by the blueprint. The
+ * controls shipped in blueprint fragments are not included.
+ */
+const m3Blueprint: { [name: string]: [value: number, min: number, max: number] } = {
+    ACSESAlarm: [0, 0, 1],
+    ACSESBeep: [0, 0, 1],
+    ACSESCutIn: [1, 0, 1],
+    ACSESOverspeed: [0, 0, 2],
+    ACSESPenalty: [0, 0, 1],
+    ACSESStatus: [0, -1, 2],
+    ACSESStop: [0, 0, 1],
+    ALEAlarm: [0, 0, 1],
+    ALECutIn: [1, 0, 1],
+    ATCAlarm: [0, 0, 1],
+    ATCCutIn: [1, 0, 1],
+    ATCForestall: [0, 0, 1],
+    ATCStatus: [0, -1, 1],
+    AWSReset: [0, 0, 1],
+    AWSWarnCount: [0, 0, 1],
+    AirBrakePipePressurePSI: [110, 0, 150],
+    AlerterIndicator: [0, 0, 1],
+    AmbientSound: [0, 0, 1],
+    BrakeAssurance: [0, 0, 1],
+    Cablight: [0, 0, 1],
+    Charging: [0, 0, 1],
+    DoorsOpenCloseLeft: [0, 0, 1],
+    DoorsOpenCloseRight: [0, 0, 1],
+    DynamicBrake: [0, 0, 1],
+    Headlights: [1, 0, 2],
+    Horn: [0, 0, 1],
+    Interlock: [0, 0, 3],
+    IsPlayerControl: [0, 0, 1],
+    LirrAspect: [0, 0, 5],
+    MasterKey: [0, 0, 1],
+    Overspeed: [0, 0, 1],
+    PantographControl: [0, 0, 1],
+    PenaltyIndicator: [0, 0, 1],
+    Regulator: [0, 0, 1],
+    Reverser: [0, -1, 1],
+    SignalSpeedLimit: [0, 0, 80],
+    SpeedoHundreds: [0, -1, 9],
+    SpeedoTens: [0, -1, 9],
+    SpeedoUnits: [0, -1, 9],
+    SpeedometerMPH: [0, 0, 100],
+    Taillights: [0, 0, 1],
+    ThrottleAndBrake: [-1, -1, 1],
+    TrackSpeedDashes: [0, 0, 1],
+    TrackSpeedHundreds: [0, -1, 9],
+    TrackSpeedTens: [0, -1, 9],
+    TrackSpeedUnits: [0, -1, 9],
+    TrainBrakeControl: [0, 0, 1],
+    TrainBrakeCylinderPressurePSI: [0, 0, 150],
+    UserVirtualReverser: [3, 0, 3],
+    VirtualEmergencyBrake: [0, 0, 1],
+    VirtualHeadlights: [0, 0, 2],
+    VirtualPantographControl: [0, 0, 1],
+    VirtualStartup: [0, -1, 1],
+    VirtualWipers: [0, 0, 1],
+    WheelSlipAlarm: [0, 0, 1],
+    WheelSlipIndicator: [0, 0, 1],
+    Wipers: [0, 0, 1],
+    WipersPosition: [0, 0, 1],
+};
+
+/**
+ * The controls the M3 engine script reads and writes, with their values at
+ * the start of a scenario.
+ */
+export function m3Controls() {
+    const values: { [name: string]: number } = {};
+    for (const name in m3Blueprint) {
+        const [value] = m3Blueprint[name];
+        values[name] = value;
+    }
+    return values;
+}
+
+/**
+ * The controls the M3 engine script reads and writes, with their ranges.
+ */
+export function m3BlueprintControls(): BlueprintControl[] {
+    const controls: BlueprintControl[] = [];
+    for (const name in m3Blueprint) {
+        const [, min, max] = m3Blueprint[name];
+        controls.push({ name, min, max });
+    }
+    return controls;
+}
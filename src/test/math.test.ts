@@ -1,4 +1,4 @@
-import { digits } from "../lib/math";
+import { Curve, digits, interpolate } from "../lib/math";
 
 test("decompose a 3-digit number with 3 places", () => {
     expect(digits(123, 3)).toStrictEqual([[1, 2, 3], 2]);
@@ -19,3 +19,20 @@ test("decompose a zero with 3 places", () => {
 test("decompose a 4-digit number with 3 places", () => {
     expect(digits(4021, 3)).toStrictEqual([[0, 2, 1], 2]);
 });
+
+test.each([
+    [-1, 0],
+    [0, 0],
+    [5, 5],
+    [10, 10],
+    [15, 7.5],
+    [20, 5],
+    [30, 5],
+])("interpolate a curve at %d", (x, y) => {
+    const curve: Curve = [
+        [0, 0],
+        [10, 10],
+        [20, 5],
+    ];
+    expect(interpolate(curve, x)).toBeCloseTo(y);
+});
@@ -0,0 +1,7 @@
+/**
+ * The parts of the Node.js API that tests use. The full Node.js typings
+ * conflict with the Lua standard library's.
+ */
+declare module "fs" {
+    export function readFileSync(path: string, encoding: "utf-8"): string;
+}
@@ -0,0 +1,125 @@
+import { FrpEngine } from "../lib/frp-engine";
+import * as power from "../lib/power";
+import * as rw from "../lib/railworks";
+import { m3Controls, m3Script } from "./m3";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+test.each([
+    ["ElecThirdRail", { thirdRail: true, overhead: false }],
+    ["ElecOverhead", { thirdRail: false, overhead: true }],
+    ["ElecDual", { thirdRail: true, overhead: true }],
+    ["ElecNone", { thirdRail: false, overhead: false }],
+    ["ElecSteam", undefined],
+    ["sig1speed80", undefined],
+])("message %s is electrification %p", (msg, elec) => {
+    expect(power.toElectrification(msg)).toStrictEqual(elec);
+});
+
+/**
+ * Boot an engine with a single power collection instance and return its state
+ * updates, along with controls for the collection mode and the master key.
+ */
+function createPower(routeElectrification?: power.Electrification) {
+    const states: power.PowerState[] = [];
+    const inputs = { mode: power.CollectionMode.Auto, keyIn: true };
+    const e = new FrpEngine(() => {
+        const power$ = power.create(
+            e,
+            () => inputs.mode,
+            () => inputs.keyIn,
+            routeElectrification
+        );
+        power$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.initialise();
+    return { states, inputs };
+}
+
+test("collect from whichever sources the route provides", () => {
+    const { states } = createPower({ thirdRail: true, overhead: false });
+    host.run(1);
+    expect(states[states.length - 1]).toStrictEqual({ shoes: true, pantograph: false, gap: false, hasPower: true });
+
+    host.signalMessage("ElecOverhead");
+    host.run(1);
+    expect(states[states.length - 1]).toStrictEqual({ shoes: false, pantograph: true, gap: false, hasPower: true });
+});
+
+test("cut power in a gap", () => {
+    const { states } = createPower();
+    host.run(1);
+    expect(states[states.length - 1].hasPower).toBe(true);
+
+    host.signalMessage("ElecNone");
+    host.run(1);
+    expect(states[states.length - 1]).toMatchObject({ gap: true, hasPower: false });
+
+    host.signalMessage("ElecThirdRail");
+    host.run(1);
+    expect(states[states.length - 1]).toMatchObject({ gap: false, hasPower: true });
+});
+
+test("lose power when the selected source is not available", () => {
+    const { states, inputs } = createPower({ thirdRail: true, overhead: false });
+    inputs.mode = power.CollectionMode.Overhead;
+    host.run(1);
+    expect(states[states.length - 1]).toMatchObject({ shoes: false, pantograph: true, gap: true, hasPower: false });
+});
+
+test("drop power, but not the pantograph, when keyed out", () => {
+    const { states, inputs } = createPower({ thirdRail: false, overhead: true });
+    inputs.keyIn = false;
+    host.run(1);
+    expect(states[states.length - 1]).toStrictEqual({ shoes: false, pantograph: true, gap: false, hasPower: false });
+});
+
+/**
+ * Boot the M3, then key in and open the master controller to full power.
+ */
+function bootM3AtFullPower() {
+    host.addControls({ ...m3Controls(), Interlock: 3, ThrottleAndBrake: 0, UserVirtualReverser: 1 });
+    jest.isolateModules(() => {
+        jest.requireActual(m3Script);
+    });
+    host.initialise();
+    host.cameraEnter(rw.CameraEnterCabEnd.Front, rw.CameraEnterView.Cab);
+    host.run(2);
+    // The interlock ignores the first control event after startup.
+    host.playerSetControlValue("Horn", 1);
+    host.run(1);
+    host.playerSetControlValue("ThrottleAndBrake", 1);
+    host.run(10);
+}
+
+test("keep the M3 powered on a route without electrification messages", () => {
+    bootM3AtFullPower();
+    expect(host.getControlValue("Regulator")).toBeGreaterThan(0);
+    expect(host.getControlValue("PantographControl")).toBe(1);
+    host.run(60);
+    expect(host.getControlValue("Regulator")).toBeGreaterThan(0);
+});
+
+test("cut the M3's power in a gap", () => {
+    bootM3AtFullPower();
+    host.signalMessage("ElecNone");
+    host.run(1);
+    expect(host.getControlValue("Regulator")).toBe(0);
+
+    host.signalMessage("ElecThirdRail");
+    host.run(10);
+    expect(host.getControlValue("Regulator")).toBeGreaterThan(0);
+    expect(host.getControlValue("PantographControl")).toBe(0);
+});
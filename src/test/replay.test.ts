@@ -0,0 +1,90 @@
+import * as cs from "../lib/cabsignals";
+import * as rw from "../lib/railworks";
+import { record, TraceEventType } from "../lib/trace";
+import { m3Controls, m3Script } from "./m3";
+import { parseTrace, TraceReplayer } from "./replay";
+import { SimulatorHost } from "./simulator";
+
+function recordM3Session() {
+    const host = new SimulatorHost();
+    host.install();
+    try {
+        host.addControls(m3Controls());
+        jest.isolateModules(() => {
+            jest.requireActual(m3Script);
+            record();
+        });
+        host.initialise();
+        host.cameraEnter(rw.CameraEnterCabEnd.Front, rw.CameraEnterView.Cab);
+        host.run(2);
+        host.signalMessage("sig1speed100");
+        host.run(1);
+        host.playerSetControlValue("ThrottleAndBrake", 0.5);
+        host.run(4);
+        host.signalMessage("sig7speed0");
+        host.run(2);
+        return { host, log: host.printed.join("\n") };
+    } finally {
+        host.uninstall();
+    }
+}
+
+test("record a session as trace lines", () => {
+    const { log } = recordM3Session();
+    const events = parseTrace(log);
+    expect(events[0][0]).toBe(TraceEventType.Initialise);
+    expect(events.filter(([type]) => type === TraceEventType.SignalMessage).map(([, args]) => args)).toEqual([
+        ["sig1speed100"],
+        ["sig7speed0"],
+    ]);
+    expect(events.filter(([type]) => type === TraceEventType.Update).length).toBeGreaterThan(0);
+});
+
+test("ignore log lines that are not part of the trace", () => {
+    const events = parseTrace('Some other output\r\n[12:00] TRACE [1,[0.1],{"GetSpeed":[[1,[5]]]},{}]\r\n');
+    expect(events).toEqual([[TraceEventType.Update, [0.1], { GetSpeed: [[1, [5]]] }, {}]]);
+});
+
+test("preserve strings and missing values in the trace", () => {
+    const events = parseTrace(
+        'TRACE [1,[0.1],{"GetNextRestrictiveSignal|0|0|10000":[[3,[1,null,"a\\"b\\\\c\\n\\u0001"]]]},{}]'
+    );
+    expect(events[0][2]).toEqual({
+        "GetNextRestrictiveSignal|0|0|10000": [[3, [1, undefined, 'a"b\\c\n\u0001']]],
+    });
+});
+
+test("record missing values and control characters", () => {
+    const host = new SimulatorHost();
+    host.install();
+    try {
+        const g = globalThis as any;
+        g.Call = () => ["a\u0001", undefined];
+        g.Initialise = () => Call("GetTag");
+        record();
+        Initialise();
+        const [[, , calls]] = parseTrace(host.printed.join("\n"));
+        expect(calls).toEqual({ GetTag: [[2, ["a\u0001", undefined]]] });
+    } finally {
+        host.uninstall();
+    }
+});
+
+test("replay a recorded session deterministically", () => {
+    const { host, log } = recordM3Session();
+    const replayer = new TraceReplayer(parseTrace(log));
+    replayer.install();
+    try {
+        jest.isolateModules(() => {
+            jest.requireActual(m3Script);
+        });
+        replayer.run();
+        expect(replayer.isFinished).toBe(true);
+        for (const name of ["LirrAspect", "SignalSpeedLimit", "ATCAlarm", "MasterKey", "Regulator"]) {
+            expect(replayer.getWrittenValue(name)).toBe(host.getControlValue(name));
+        }
+        expect(replayer.getWrittenValue("LirrAspect")).toBe(cs.LirrAspect.Speed15);
+    } finally {
+        replayer.uninstall();
+    }
+});
@@ -0,0 +1,185 @@
+/**
+ * Offline replay of session traces printed by the recorder in lib/trace.
+ */
+
+import { toReadKey, TraceEvent, TraceEventType, tracePrefix, TraceReads, TraceResult, TraceValue } from "../lib/trace";
+import { SimulatorHost } from "./simulator";
+
+/**
+ * Extract a trace from a LogMate log or any other text that contains the
+ * recorder's output.
+ * @param log The log text.
+ * @returns The trace events, in order.
+ */
+export function parseTrace(log: string): TraceEvent[] {
+    let events: TraceEvent[] = [];
+    for (const line of log.split(/\r?\n/)) {
+        const i = line.indexOf(tracePrefix);
+        if (i !== -1) {
+            const [type, args, calls, sysCalls] = JSON.parse(line.substring(i + tracePrefix.length));
+            events.push([type, args, fromJsonReads(calls), fromJsonReads(sysCalls)]);
+        }
+    }
+    return events;
+}
+
+/**
+ * Replays a trace against a script by dispatching the recorded callbacks and
+ * answering the script's reads with the recorded results. Nothing is
+ * simulated; control values written by the script are collected so that tests
+ * can inspect them.
+ */
+export class TraceReplayer {
+    /**
+     * The index of the next event to dispatch.
+     */
+    position = 0;
+
+    private readonly host = new SimulatorHost();
+    private readonly written = new Map<string, number>();
+    private readonly calls = new ReadTable();
+    private readonly sysCalls = new ReadTable();
+
+    constructor(readonly events: TraceEvent[]) {}
+
+    /**
+     * Install the game's global functions. This must be done before the
+     * script module is loaded.
+     */
+    install() {
+        this.host.install();
+        const g = globalThis as any;
+        g.Call = (fn: string, ...args: (string | number | boolean)[]) => {
+            if (fn === "SetControlValue") {
+                const [name, index, value] = args;
+                this.written.set(`${name}:${index}`, value as number);
+            }
+            return this.calls.read(toReadKey(fn, args));
+        };
+        g.SysCall = (fn: string, ...args: (string | number | boolean)[]) => this.sysCalls.read(toReadKey(fn, args));
+    }
+
+    uninstall() {
+        this.host.uninstall();
+    }
+
+    /**
+     * Get the last value the script wrote to a control.
+     * @param name The name of the control.
+     * @param index The index of the control, usually 0.
+     * @returns The value, or undefined if the script never wrote to it.
+     */
+    getWrittenValue(name: string, index: number = 0) {
+        return this.written.get(`${name}:${index}`);
+    }
+
+    get isFinished() {
+        return this.position >= this.events.length;
+    }
+
+    /**
+     * Dispatch the next event in the trace.
+     * @returns The event, or undefined if the trace has finished.
+     */
+    step() {
+        const event = this.events[this.position];
+        if (event === undefined) {
+            return undefined;
+        }
+        this.position++;
+
+        const [type, args, calls, sysCalls] = event;
+        this.calls.load(calls);
+        this.sysCalls.load(sysCalls);
+        switch (type) {
+            case TraceEventType.Initialise:
+                Initialise();
+                break;
+            case TraceEventType.Update: {
+                const [dt] = args;
+                Update(dt as number);
+                break;
+            }
+            case TraceEventType.ControlValueChange: {
+                const [name, index, value] = args;
+                OnControlValueChange(name as string, index as number, value as number);
+                break;
+            }
+            case TraceEventType.SignalMessage: {
+                const [msg] = args;
+                OnCustomSignalMessage(msg as string);
+                break;
+            }
+            case TraceEventType.ConsistMessage: {
+                const [id, content, dir] = args;
+                OnConsistMessage(id as number, content as string, dir as number);
+                break;
+            }
+            case TraceEventType.CameraEnter: {
+                const [cabEnd, carriageCam] = args;
+                OnCameraEnter(cabEnd as number, carriageCam as number);
+                break;
+            }
+            case TraceEventType.CameraLeave:
+                OnCameraLeave();
+                break;
+            case TraceEventType.Save:
+                OnSave();
+                break;
+            case TraceEventType.Resume:
+                OnResume();
+                break;
+        }
+        return event;
+    }
+
+    /**
+     * Dispatch events until the trace finishes or a condition is met.
+     * @param until An optional condition that is tested after each event.
+     */
+    run(until?: (event: TraceEvent) => boolean) {
+        while (!this.isFinished) {
+            const event = this.step() as TraceEvent;
+            if (until !== undefined && until(event)) {
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Serves recorded read results in the same order the recorder saw them.
+ */
+class ReadTable {
+    private last = new Map<string, TraceResult>();
+    private pending = new Map<string, TraceResult[]>();
+
+    load(reads: TraceReads) {
+        this.pending = new Map();
+        for (const key in reads) {
+            const results = reads[key];
+            this.pending.set(key, [...results]);
+            this.last.set(key, results[results.length - 1]);
+        }
+    }
+
+    read(key: string): TraceValue[] {
+        const pending = this.pending.get(key);
+        const [count, values] = pending?.shift() ?? this.last.get(key) ?? [0, []];
+        let result: TraceValue[] = [];
+        for (let i = 0; i < count; i++) {
+            result.push(values[i]);
+        }
+        return result;
+    }
+}
+
+function fromJsonReads(reads: {
+    [key: string]: [count: number, values: (string | number | boolean | null)[]][];
+}): TraceReads {
+    let converted: TraceReads = {};
+    for (const key in reads) {
+        converted[key] = reads[key].map(([count, values]) => [count, values.map(v => (v === null ? undefined : v))]);
+    }
+    return converted;
+}
@@ -0,0 +1,118 @@
+import { readFileSync } from "fs";
+import * as frp from "../lib/frp";
+import { FrpEngine } from "../lib/frp-engine";
+import { ControlSlot } from "../lib/frp-vehicle";
+import * as rw from "../lib/railworks";
+import { parseBlueprintControls } from "./blueprint";
+import { m3Controls, m3SaveControls, m3Script } from "./m3";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+function createCounter(slots: ControlSlot[]) {
+    let counts: number[] = [];
+    const e = new FrpEngine(() => {
+        const count$ = frp.compose(
+            e.createPlayerWithKeyUpdateStream(),
+            e.foldWithSave((accum, _) => accum + 1, 0, { encode: n => [n], decode: ([n]) => n }, slots)
+        );
+        count$(n => counts.push(n));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    return counts;
+}
+
+test("save and restore a fold accumulator", () => {
+    host.addControl("SaveCount", 0);
+    const before = createCounter([["SaveCount", 0]]);
+    host.initialise();
+    host.run(1);
+    expect(before[before.length - 1]).toBe(10);
+    host.save();
+    expect(host.getControlValue("SaveCount")).toBe(10);
+
+    const after = createCounter([["SaveCount", 0]]);
+    host.initialise();
+    host.resume();
+    host.run(1);
+    expect(after.slice(0, 4)).toStrictEqual([1, 2, 3, 4]);
+    expect(after[after.length - 1]).toBe(16);
+});
+
+test("skip the restore if a control is missing", () => {
+    const counts = createCounter([["SaveCount", 0]]);
+    host.initialise();
+    host.run(1);
+    host.save();
+    host.resume();
+    host.run(1);
+    expect(counts[counts.length - 1]).toBe(20);
+});
+
+/**
+ * Add the save controls from the blueprint fragment that ships with the M3.
+ */
+function addM3SaveControls() {
+    const controls = parseBlueprintControls(readFileSync(m3SaveControls, "utf-8"));
+    for (const { name, min, max } of controls) {
+        host.addControl(name, 0, 0, min, max);
+    }
+    return controls.map(({ name }) => name);
+}
+
+function bootM3() {
+    jest.isolateModules(() => {
+        jest.requireActual(m3Script);
+    });
+    host.initialise();
+    host.cameraEnter(rw.CameraEnterCabEnd.Front, rw.CameraEnterView.Cab);
+}
+
+test("resume the M3's alerter countdown", () => {
+    host.addControls(m3Controls());
+    // Start with the master controller in coast and the reverser in forward.
+    host.addControls({ Interlock: 3, ThrottleAndBrake: 0, UserVirtualReverser: 1 });
+    addM3SaveControls();
+    bootM3();
+    host.run(20);
+    expect(host.getControlValue("AlerterIndicator")).toBe(0);
+    host.save();
+
+    bootM3();
+    host.resume();
+    host.run(10);
+    expect(host.getControlValue("AlerterIndicator")).toBe(1);
+});
+
+test("define every control the M3 saves to in its blueprint fragment", () => {
+    host.addControls(m3Controls());
+    const defined = addM3SaveControls();
+    bootM3();
+    host.run(1);
+    host.save();
+
+    const read = new Set<string>();
+    const g = globalThis as any;
+    const call = g.Call;
+    g.Call = (fn: string, ...args: any[]) => {
+        if (fn === "GetControlValue") {
+            read.add(args[0]);
+        }
+        return call(fn, ...args);
+    };
+    host.resume();
+    host.run(0.1);
+    const saves = [...read].filter(name => name.startsWith("Save"));
+    expect(saves.length).toBeGreaterThan(0);
+    expect(defined).toEqual(expect.arrayContaining(saves));
+});
@@ -0,0 +1,182 @@
+import * as cs from "../lib/cabsignals";
+import * as frp from "../lib/frp";
+import { FrpEngine } from "../lib/frp-engine";
+import { CabChange, CabEnd, PlayerUpdate, SensedDirection } from "../lib/frp-vehicle";
+import * as rw from "../lib/railworks";
+import { m3Controls, m3Script } from "./m3";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+test("translate Lua patterns for string.find", () => {
+    expect(string.find("sig1speed100", "^sig(%d)speed(%d+)$")).toStrictEqual([1, 12, "1", "100"]);
+    expect(string.find("sig7stop500", "^sig(%d)speed(%d+)$")).toStrictEqual([]);
+    expect(string.find("xN12", "^[MN](%d%d)")).toStrictEqual([]);
+    expect(string.find("xN12", "[MN](%d%d)")).toStrictEqual([2, 4, "12"]);
+});
+
+test("decode signal messages through the Lua string library", () => {
+    expect(cs.toPulseCode("sig1speed100")).toBe(cs.PulseCode.C_270_270);
+    expect(cs.toPulseCode("M12")).toBe(cs.PulseCode.C_75_0);
+    expect(cs.toPositiveStopDistanceM("sig7stop100")).toBeCloseTo(30.48);
+    expect(cs.toPulseCode("garbage")).toBeUndefined();
+});
+
+test("search the fake track for speed posts and signals", () => {
+    const rv = new rw.RailVehicle("");
+    host.addSpeedPost(100, 20);
+    host.addSpeedPost(300, 10);
+    host.addSignal(-50, rw.ProSignalState.Red, rw.BasicSignalState.Red);
+    expect(rv.GetNextSpeedLimit(rw.ConsistDirection.Forward, 0)).toStrictEqual([
+        rw.SpeedLimitType.SignedTrack,
+        20,
+        100,
+    ]);
+    expect(rv.GetNextSpeedLimit(rw.ConsistDirection.Forward, 101)).toStrictEqual([
+        rw.SpeedLimitType.SignedTrack,
+        10,
+        300,
+    ]);
+    expect(rv.GetNextSpeedLimit(rw.ConsistDirection.Backward, 0)).toBe(rw.SearchFailed.NothingFound);
+    expect(rv.GetNextRestrictiveSignal(rw.ConsistDirection.Backward, 0)).toStrictEqual([
+        rw.BasicSignalState.Red,
+        50,
+        rw.ProSignalState.Red,
+    ]);
+
+    host.speedMps = 50;
+    host.run(4, 1);
+    expect(host.positionM).toBe(200);
+    expect(rv.GetCurrentSpeedLimit()).toStrictEqual([20, -1]);
+});
+
+test("step an FrpEngine frame by frame", () => {
+    let updates: PlayerUpdate[] = [];
+    let withoutKey = 0;
+    let signals: string[] = [];
+    const e = new FrpEngine(() => {
+        e.createPlayerWithKeyUpdateStream()(pu => updates.push(pu));
+        e.createPlayerWithoutKeyUpdateStream()(_ => withoutKey++);
+        e.createOnSignalMessageStream()(msg => signals.push(msg));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.addControl("DoorsOpenCloseLeft", 1);
+    host.initialise();
+
+    host.speedMps = 10;
+    host.run(1, 0.25);
+    expect(updates.length).toBe(4);
+    expect(updates[3]).toMatchObject({ dt: 0.25, speedMps: 10, isStopped: false, doorsOpen: [true, false] });
+
+    host.isEngineWithKey = false;
+    host.update(0.25);
+    expect(withoutKey).toBe(1);
+
+    host.signalMessage("sig2");
+    expect(signals).toStrictEqual(["sig2"]);
+});
+
+test("normalize the physics to the occupied cab", () => {
+    let updates: PlayerUpdate[] = [];
+    let changes: CabChange[] = [];
+    const e = new FrpEngine(() => {
+        e.createPlayerWithKeyUpdateStream()(pu => updates.push(pu));
+        e.createOnCabChangeStream()(change => changes.push(change));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.initialise();
+
+    host.speedMps = 10;
+    host.accelerationMps2 = 1;
+    host.cameraEnter(rw.CameraEnterCabEnd.Front, rw.CameraEnterView.Cab);
+    host.update(0.1);
+    expect(updates[updates.length - 1]).toMatchObject({
+        cabEnd: CabEnd.Front,
+        cabAccelerationMps2: 1,
+        direction: SensedDirection.Forward,
+        cabDirection: SensedDirection.Forward,
+    });
+    expect(updates[updates.length - 1].cabSpeedMps).toBeCloseTo(10.1);
+    expect(changes).toStrictEqual([]);
+
+    host.cameraEnter(rw.CameraEnterCabEnd.Rear, rw.CameraEnterView.Cab);
+    host.cameraLeave();
+    host.update(0.1);
+    expect(updates[updates.length - 1]).toMatchObject({
+        cabEnd: CabEnd.Rear,
+        cabAccelerationMps2: -1,
+        direction: SensedDirection.Forward,
+        cabDirection: SensedDirection.Backward,
+    });
+    expect(updates[updates.length - 1].cabSpeedMps).toBeCloseTo(-10.2);
+    expect(changes).toStrictEqual([[CabEnd.Front, CabEnd.Rear]]);
+    expect(frp.snapshot(e.activeCabEnd)).toBe(CabEnd.Rear);
+});
+
+test("deliver control value changes to the script", () => {
+    let changes: number[] = [];
+    const e = new FrpEngine(() => {
+        const settled = frp.snapshot(e.areControlsSettled);
+        expect(settled).toBe(false);
+        e.createOnCvChangeStreamFor("Horn", 0)(v => changes.push(v));
+    });
+    e.setup();
+    host.addControl("Horn", 0);
+    host.initialise();
+
+    host.playerSetControlValue("Horn", 1);
+    host.run(1);
+    host.playerSetControlValue("Horn", 1);
+    expect(changes).toStrictEqual([1]);
+    expect(host.getControlValue("Horn")).toBe(0);
+});
+
+test("boot the M3 engine script and receive a cab signal", () => {
+    host.addControls(m3Controls());
+    jest.isolateModules(() => {
+        jest.requireActual(m3Script);
+    });
+    host.initialise();
+    host.cameraEnter(rw.CameraEnterCabEnd.Front, rw.CameraEnterView.Cab);
+    host.run(2);
+    expect(host.getControlValue("MasterKey")).toBe(1);
+
+    host.signalMessage("sig1speed100");
+    host.run(1);
+    expect(host.getControlValue("LirrAspect")).toBe(cs.LirrAspect.Speed70);
+    host.run(4);
+    expect(host.getControlValue("SignalSpeedLimit")).toBe(70);
+    expect(host.nodes.get("SL_green")).toBe(true);
+});
+
+test("carry the M3 master key to the other cab", () => {
+    host.addControls({ ...m3Controls(), Interlock: 3, ThrottleAndBrake: 0, UserVirtualReverser: 1 });
+    jest.isolateModules(() => {
+        jest.requireActual(m3Script);
+    });
+    host.initialise();
+    host.cameraEnter(rw.CameraEnterCabEnd.Front, rw.CameraEnterView.Cab);
+    host.run(2);
+    // The interlock ignores the first control event after startup.
+    host.playerSetControlValue("Horn", 1);
+    host.run(1);
+    expect(host.getControlValue("Interlock")).toBe(3);
+
+    host.cameraEnter(rw.CameraEnterCabEnd.Rear, rw.CameraEnterView.Cab);
+    host.run(1);
+    expect(host.getControlValue("Interlock")).toBe(1);
+    expect(host.getControlValue("MasterKey")).toBe(1);
+    expect(host.getControlValue("ThrottleAndBrake")).toBe(-1);
+    expect(host.getControlValue("UserVirtualReverser")).toBe(3);
+});
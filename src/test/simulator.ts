@@ -0,0 +1,843 @@
+/**
+ * A headless stand-in for Train Simulator that implements the global Call()
+ * and SysCall() functions in-process, so that entity scripts can be booted and
+ * stepped frame by frame under Jest.
+ */
+
+import * as rw from "../lib/railworks";
+
+/**
+ * A control in the simulated vehicle's control container.
+ */
+export type SimControl = { value: number; min: number; max: number };
+
+/**
+ * A speed post placed on the simulated track.
+ */
+export type SimSpeedPost = { positionM: number; speedMps: number; type?: rw.SpeedLimitType };
+
+/**
+ * A signal placed on the simulated track.
+ */
+export type SimSignal = { positionM: number; basicState: rw.BasicSignalState; proState: rw.ProSignalState };
+
+/**
+ * A message sent by the script with SendConsistMessage().
+ */
+export type SimConsistMessage = [id: number, content: string, direction: rw.ConsistDirection];
+
+/**
+ * A message sent by a signal script with SendSignalMessage().
+ */
+export type SimSignalMessage = [
+    message: rw.SignalMessage | number,
+    argument: string,
+    direction: rw.SignalDirection,
+    link: rw.SignalDirection,
+    index: number
+];
+
+/**
+ * A message box shown by the script through the scenario manager.
+ */
+export type SimMessageBox = { title: string; message: string; time: number };
+
+type DeferredEvent = { name: string; atS: number };
+type Handler = (target: string, args: (string | number | boolean)[]) => (string | number | boolean | undefined)[];
+
+/**
+ * The global functions and callbacks that the simulator installs or reads.
+ */
+const globalNames = [
+    "Call",
+    "SysCall",
+    "Print",
+    "Is64Bit",
+    "string",
+    "math",
+    "$multi",
+    "Initialise",
+    "Update",
+    "OnConsistMessage",
+    "OnCustomSignalMessage",
+    "OnCameraEnter",
+    "OnCameraLeave",
+    "OnSave",
+    "OnResume",
+    "OnControlValueChange",
+    "OnSignalMessage",
+    "OnConsistPass",
+    "OnJunctionStateChange",
+    "OnEvent",
+    "TestCondition",
+];
+
+/**
+ * A scriptable, in-process game host. The simulated vehicle runs along an
+ * infinite straight track at a speed set by the test; speed posts and signals
+ * are placed on the track at absolute positions.
+ */
+export class SimulatorHost {
+    /**
+     * The simulation clock in seconds.
+     */
+    simulationTimeS = 0;
+    /**
+     * The vehicle's position along the track in metres.
+     */
+    positionM = 0;
+    speedMps = 0;
+    accelerationMps2 = 0;
+    gradientPct = 0;
+    curvatureM = 0;
+    consistLengthM = 26;
+    rvNumber = "0000";
+    totalMassKg = 50000;
+    consistTotalMassKg = 50000;
+    tractiveEffort = 0;
+    isPlayer = true;
+    isEngineWithKey = true;
+    isExpertMode = false;
+    isDeadEngine = false;
+    /**
+     * The track speed limit that applies before the first speed post.
+     */
+    defaultSpeedLimitMps = 999;
+    /**
+     * Whether there are other rail vehicles coupled to the front and rear.
+     */
+    couplings: [front: boolean, rear: boolean] = [false, false];
+    precipitationDensity = 0;
+    precipitationType = rw.Precipitation.Rain;
+    season = rw.Season.Summer;
+    timeOfDayS = 12 * 60 * 60;
+    /**
+     * The number of links a signal script sees.
+     */
+    linkCount = 1;
+    /**
+     * The link a signal script sees connected by the track network, or -1.
+     */
+    connectedLink = 0;
+    /**
+     * The state a signal script sees for the next signal along the line.
+     */
+    nextSignalState = rw.BasicSignalState.Go;
+    /**
+     * The state set by a signal script for the 2D map.
+     */
+    mapSignalState: undefined | rw.BasicSignalState = undefined;
+
+    readonly speedPosts: SimSpeedPost[] = [];
+    readonly signals: SimSignal[] = [];
+    /**
+     * Everything printed with Print(), one string per call.
+     */
+    readonly printed: string[] = [];
+    readonly alertMessages: SimMessageBox[] = [];
+    readonly infoMessages: SimMessageBox[] = [];
+    readonly consistMessagesSent: SimConsistMessage[] = [];
+    readonly signalMessagesSent: SimSignalMessage[] = [];
+    /**
+     * The activation state of child nodes, lights and emitters.
+     */
+    readonly nodes = new Map<string, boolean>();
+    /**
+     * The current time of each animation.
+     */
+    readonly animations = new Map<string, number>();
+    /**
+     * The last value of each sound proxy parameter, keyed by "proxy:name".
+     */
+    readonly soundParameters = new Map<string, number>();
+    /**
+     * The status of each condition tested with BeginConditionCheck().
+     */
+    readonly conditions = new Map<string, rw.ConditionStatus>();
+    /**
+     * Set once the scenario has been failed or completed.
+     */
+    scenarioResult: undefined | [succeeded: boolean, message: string] = undefined;
+
+    private readonly controls = new Map<string, SimControl>();
+    private readonly lockedControls = new Set<string>();
+    private deferredEvents: DeferredEvent[] = [];
+    private isUpdating = false;
+    private savedGlobals: Map<string, any> | undefined = undefined;
+
+    private readonly handlers: { [fn: string]: Handler } = {
+        BeginUpdate: () => {
+            this.isUpdating = true;
+            return [];
+        },
+        EndUpdate: () => {
+            this.isUpdating = false;
+            return [];
+        },
+        GetSimulationTime: () => [this.simulationTimeS],
+        IsExpertMode: () => [this.isExpertMode ? 1 : 0],
+        getNearPosition: () => [0, 0, 0],
+        ActivateNode: (target, [name, activate]) => {
+            this.nodes.set(joinId(target, name as string), activate === 1);
+            return [];
+        },
+        AddTime: (target, [name, time]) => {
+            const id = joinId(target, name as string);
+            this.animations.set(id, (this.animations.get(id) ?? 0) + (time as number));
+            return [0];
+        },
+        Reset: (target, [name]) => {
+            this.animations.set(joinId(target, name as string), 0);
+            return [];
+        },
+        SetTime: (target, [name, time]) => {
+            this.animations.set(joinId(target, name as string), time as number);
+            return [0];
+        },
+        setNearPosition: () => [],
+        GetIsPlayer: () => [this.isPlayer ? 1 : 0],
+        GetSpeed: () => [this.speedMps],
+        GetAcceleration: () => [this.accelerationMps2],
+        GetTotalMass: () => [this.totalMassKg],
+        GetConsistTotalMass: () => [this.consistTotalMassKg],
+        GetConsistLength: () => [this.consistLengthM],
+        GetGradient: () => [this.gradientPct],
+        GetRVNumber: () => [this.rvNumber],
+        SetRVNumber: () => [],
+        GetCurvature: () => [this.curvatureM],
+        GetCurvatureAhead: () => [this.curvatureM],
+        SendConsistMessage: (_, [id, content, direction]) => {
+            const dir = direction as rw.ConsistDirection;
+            this.consistMessagesSent.push([id as number, content as string, dir]);
+            const [front, rear] = this.couplings;
+            return [(dir === rw.ConsistDirection.Forward ? front : rear) ? 1 : 0];
+        },
+        SetBrakeFailureValue: () => [],
+        GetNextRestrictiveSignal: (_, [direction, minDistance, maxDistance]) => {
+            const found = this.searchTrack(
+                this.signals,
+                direction as rw.ConsistDirection,
+                minDistance as number,
+                maxDistance as number
+            );
+            if (found === undefined) {
+                return [rw.SearchFailed.NothingFound];
+            }
+            const [distanceM, signal] = found;
+            return [1, signal.basicState, distanceM, signal.proState];
+        },
+        GetNextSpeedLimit: (_, [direction, minDistance, maxDistance]) => {
+            const found = this.searchTrack(
+                this.speedPosts,
+                direction as rw.ConsistDirection,
+                minDistance as number,
+                maxDistance as number
+            );
+            if (found === undefined) {
+                return [rw.SearchFailed.NothingFound];
+            }
+            const [distanceM, post] = found;
+            return [post.type ?? rw.SpeedLimitType.SignedTrack, post.speedMps, distanceM];
+        },
+        GetCurrentSpeedLimit: () => [this.getCurrentSpeedLimitMps(), -1],
+        GetConsistType: () => [rw.TrainType.StoppingPassenger],
+        GetIsNearCamera: () => [true],
+        GetIsInTunnel: () => [false],
+        ControlExists: (_, [name, index]) => [this.controls.has(controlKey(name as string, index as number))],
+        GetControlValue: (_, [name, index]) => [this.controls.get(controlKey(name as string, index as number))?.value],
+        SetControlValue: (_, [name, index, value]) => {
+            this.setControlValue(name as string, index as number, value as number);
+            return [];
+        },
+        GetControlMinimum: (_, [name, index]) => [this.controls.get(controlKey(name as string, index as number))?.min],
+        GetControlMaximum: (_, [name, index]) => [this.controls.get(controlKey(name as string, index as number))?.max],
+        GetWiperValue: () => [0],
+        SetWiperValue: () => [],
+        GetWiperPairCount: () => [0],
+        IsControlLocked: (_, [name, index]) => [
+            this.lockedControls.has(controlKey(name as string, index as number)) ? 1 : 0,
+        ],
+        LockControl: (_, [name, index, locked]) => {
+            const key = controlKey(name as string, index as number);
+            if (locked) {
+                this.lockedControls.add(key);
+            } else {
+                this.lockedControls.delete(key);
+            }
+            return [];
+        },
+        SetParameter: (target, [name, value]) => {
+            this.soundParameters.set(joinId(target, name as string), value as number);
+            return [];
+        },
+        GetTractiveEffort: () => [this.tractiveEffort],
+        GetIsEngineWithKey: () => [this.isEngineWithKey ? 1 : 0],
+        GetIsDeadEngine: () => [this.isDeadEngine ? 1 : 0],
+        SetPowerProportion: () => [],
+        GetFireboxMass: () => [0],
+        Activate: (target, [value]) => {
+            this.nodes.set(target, value === 1);
+            return [];
+        },
+        SetColour: () => [],
+        SetRange: () => [],
+        SetUmbraAngle: () => [],
+        SetPenumbraAngle: () => [],
+        SetEmitterActive: (target, [active]) => {
+            this.nodes.set(target, active === 1);
+            return [];
+        },
+        SetEmitterColour: () => [],
+        SetEmitterRate: () => [],
+        RestartEmitter: () => [],
+        SetInitialVelocityMultiplier: () => [],
+        SendSignalMessage: (_, [message, argument, direction, link, index]) => {
+            this.signalMessagesSent.push([
+                message as number,
+                argument as string,
+                direction as rw.SignalDirection,
+                link as rw.SignalDirection,
+                index as number,
+            ]);
+            return [1];
+        },
+        GetNextSignalState: () => [this.nextSignalState],
+        Set2DMapSignalState: (_, [state]) => {
+            this.mapSignalState = state as rw.BasicSignalState;
+            return [];
+        },
+        GetConnectedLink: () => [this.connectedLink],
+        GetLinkCount: () => [this.linkCount],
+        GetConsistSpeed: () => [this.speedMps],
+        GetTrackSpeedLimit: () => [this.getCurrentSpeedLimitMps()],
+        GetLinkApproachControl: () => [0],
+        GetLinkLimitedToYellow: () => [0],
+        GetLinkFeatherChar: () => [0],
+        GetLinkSpeedLimit: () => [0],
+        GetId: () => [""],
+    };
+
+    private readonly sysHandlers: { [fn: string]: (args: (string | number | boolean)[]) => (string | number)[] } = {
+        "ScenarioManager:TriggerScenarioFailure": ([message]) => {
+            this.scenarioResult = [false, message as string];
+            return [];
+        },
+        "ScenarioManager:TriggerScenarioComplete": ([message]) => {
+            this.scenarioResult = [true, message as string];
+            return [];
+        },
+        "ScenarioManager:TriggerDeferredEvent": ([name, time]) => {
+            if (this.deferredEvents.some(evt => evt.name === name)) {
+                return [0];
+            }
+            this.deferredEvents.push({ name: name as string, atS: this.simulationTimeS + (time as number) });
+            return [1];
+        },
+        "ScenarioManager:CancelDeferredEvent": ([name]) => {
+            const before = this.deferredEvents.length;
+            this.deferredEvents = this.deferredEvents.filter(evt => evt.name !== name);
+            return [this.deferredEvents.length < before ? 1 : 0];
+        },
+        "ScenarioManager:BeginConditionCheck": ([name]) => {
+            if (this.conditions.has(name as string)) {
+                return [0];
+            }
+            this.conditions.set(name as string, rw.ConditionStatus.NotYetMet);
+            return [1];
+        },
+        "ScenarioManager:EndConditionCheck": ([name]) => [this.conditions.delete(name as string) ? 1 : 0],
+        "ScenarioManager:GetConditionStatus": ([name]) => [this.conditions.get(name as string) ?? 0],
+        "ScenarioManager:ShowMessage": ([title, message]) => {
+            this.alertMessages.push({ title: title as string, message: message as string, time: 0 });
+            return [];
+        },
+        "ScenarioManager:ShowInfoMessageExt": ([title, message, time]) => {
+            this.infoMessages.push({ title: title as string, message: message as string, time: time as number });
+            return [];
+        },
+        "ScenarioManager:ShowAlertMessageExt": ([title, message, time]) => {
+            this.alertMessages.push({ title: title as string, message: message as string, time: time as number });
+            return [];
+        },
+        "ScenarioManager:IsAtDestination": () => [0],
+        "ScenarioManager:GetScenarioTime": () => [this.simulationTimeS],
+        "ScenarioManager:GetTimeOfDay": () => [this.timeOfDayS],
+        "ScenarioManager:LockControls": () => [],
+        "ScenarioManager:UnlockControls": () => [],
+        "ScenarioManager:GetSeason": () => [this.season],
+        "ScenarioManager:PlayVideoMessage": () => [],
+        "ScenarioManager:IsVideoMessagePlaying": () => [0],
+        "WeatherController:GetCurrentPrecipitationType": () => [this.precipitationType],
+        "WeatherController:GetPrecipitationDensity": () => [this.precipitationDensity],
+        "WeatherController:GetPrecipitationSpeed": () => [0],
+        "CameraManager:ActivateCamera": () => [],
+        "CameraManager:LookAt": () => [1],
+        "CameraManager:JumpTo": () => [1],
+        "PlayerEngine:GetControlValue": ([name, index]) => {
+            const value = this.controls.get(controlKey(name as string, index as number))?.value;
+            return value !== undefined ? [value] : [];
+        },
+        "PlayerEngine:SetControlValue": ([name, index, value]) => {
+            this.setControlValue(name as string, index as number, value as number);
+            return [];
+        },
+    };
+
+    /**
+     * Install the game's global functions and clear the script callbacks.
+     * This must be done before any script module is loaded.
+     */
+    install() {
+        const g = globalThis as any;
+        this.savedGlobals = new Map(globalNames.map(name => [name, g[name]]));
+        for (const name of globalNames) {
+            g[name] = undefined;
+        }
+        g.Call = (fn: string, ...args: (string | number | boolean)[]) => this.call(fn, args);
+        g.SysCall = (fn: string, ...args: (string | number | boolean)[]) => this.sysCall(fn, args);
+        g.Print = (...args: (string | number | boolean | undefined)[]) => {
+            this.printed.push(args.map(arg => (arg === undefined ? "<nil>" : `${arg}`)).join(""));
+        };
+        g.Is64Bit = () => true;
+        g.string = luaString;
+        g.math = luaMath;
+        // TypeScriptToLua compiles $multi() away, so it only needs to exist here.
+        g.$multi = (...values: any[]) => values;
+    }
+
+    /**
+     * Restore the globals that were replaced by install().
+     */
+    uninstall() {
+        const g = globalThis as any;
+        for (const [name, value] of this.savedGlobals ?? []) {
+            g[name] = value;
+        }
+        this.savedGlobals = undefined;
+    }
+
+    /**
+     * Add a control to the vehicle's control container.
+     * @param name The name of the control.
+     * @param value The initial value.
+     * @param index The index of the control, usually 0.
+     * @param min The minimum value of the control.
+     * @param max The maximum value of the control.
+     */
+    addControl(name: string, value: number, index: number = 0, min: number = -Infinity, max: number = Infinity) {
+        this.controls.set(controlKey(name, index), { value, min, max });
+    }
+
+    /**
+     * Add a set of controls at index 0 from a table of initial values.
+     * @param values A mapping of control name to value.
+     */
+    addControls(values: { [name: string]: number }) {
+        for (const name in values) {
+            this.addControl(name, values[name]);
+        }
+    }
+
+    /**
+     * Read a control the way the script would.
+     * @param name The name of the control.
+     * @param index The index of the control, usually 0.
+     * @returns The value, or undefined if the control does not exist.
+     */
+    getControlValue(name: string, index: number = 0) {
+        return this.controls.get(controlKey(name, index))?.value;
+    }
+
+    /**
+     * Write a control directly, without notifying the script.
+     * @param name The name of the control.
+     * @param index The index of the control, usually 0.
+     * @param value The new value, which will be clamped to the control's
+     * range. Writes to nonexistent controls are ignored, as in the game.
+     */
+    setControlValue(name: string, index: number, value: number) {
+        const cv = this.controls.get(controlKey(name, index));
+        if (cv !== undefined) {
+            cv.value = Math.min(Math.max(value, cv.min), cv.max);
+        }
+    }
+
+    /**
+     * Manipulate a control as the player would. If the script implements
+     * OnControlValueChange(), it is called in lieu of changing the value.
+     * @param name The name of the control.
+     * @param value The new value.
+     * @param index The index of the control, usually 0.
+     */
+    playerSetControlValue(name: string, value: number, index: number = 0) {
+        if (OnControlValueChange !== undefined) {
+            OnControlValueChange(name, index, value);
+        } else {
+            this.setControlValue(name, index, value);
+        }
+    }
+
+    /**
+     * Place a speed post on the track.
+     */
+    addSpeedPost(positionM: number, speedMps: number, type: rw.SpeedLimitType = rw.SpeedLimitType.SignedTrack) {
+        this.speedPosts.push({ positionM, speedMps, type });
+    }
+
+    /**
+     * Place a signal on the track.
+     */
+    addSignal(
+        positionM: number,
+        proState: rw.ProSignalState,
+        basicState: rw.BasicSignalState = rw.BasicSignalState.Go
+    ) {
+        const signal = { positionM, basicState, proState };
+        this.signals.push(signal);
+        return signal;
+    }
+
+    /**
+     * Call the script's Initialise() callback.
+     */
+    initialise() {
+        Initialise?.();
+    }
+
+    /**
+     * Advance the simulation by a single frame. The vehicle moves and
+     * accelerates, deferred events fire, the Update() callback runs if it has
+     * been requested, and then conditions are tested.
+     * @param dt The frame time in seconds.
+     */
+    update(dt: number) {
+        this.simulationTimeS += dt;
+        this.positionM += this.speedMps * dt;
+        this.speedMps += this.accelerationMps2 * dt;
+
+        const due = this.deferredEvents.filter(evt => evt.atS <= this.simulationTimeS);
+        this.deferredEvents = this.deferredEvents.filter(evt => evt.atS > this.simulationTimeS);
+        for (const evt of due) {
+            this.event(evt.name);
+        }
+
+        if (this.isUpdating) {
+            Update?.(dt);
+        }
+
+        for (const [name, status] of this.conditions) {
+            if (status === rw.ConditionStatus.NotYetMet && TestCondition !== undefined) {
+                this.conditions.set(name, TestCondition(name));
+            }
+        }
+    }
+
+    /**
+     * Advance the simulation by a number of seconds at a fixed frame rate.
+     * @param seconds The time to run for.
+     * @param dt The frame time in seconds.
+     */
+    run(seconds: number, dt: number = 0.1) {
+        const frames = Math.round(seconds / dt);
+        for (let i = 0; i < frames; i++) {
+            this.update(dt);
+        }
+    }
+
+    /**
+     * Deliver a custom signal message to the script.
+     */
+    signalMessage(message: string) {
+        OnCustomSignalMessage?.(message);
+    }
+
+    /**
+     * Deliver a consist message to the script.
+     */
+    consistMessage(id: number, content: string, direction: rw.ConsistDirection) {
+        OnConsistMessage?.(id, content, direction);
+    }
+
+    /**
+     * Deliver a message from another signal to a signal script.
+     */
+    signalLinkMessage(
+        message: rw.SignalMessage | number,
+        argument: string,
+        direction: rw.SignalDirection,
+        linkIndex: number = 0
+    ) {
+        OnSignalMessage?.(message, argument, direction, linkIndex);
+    }
+
+    /**
+     * Move a consist past a signal link. Distances are positive when the end
+     * of the consist is in front of the link.
+     */
+    consistPass(
+        prevFrontDistM: number,
+        prevBackDistM: number,
+        frontDistM: number,
+        backDistM: number,
+        linkIndex: number = 0
+    ) {
+        OnConsistPass?.(prevFrontDistM, prevBackDistM, frontDistM, backDistM, linkIndex);
+    }
+
+    junctionStateChange(argument: string, direction: rw.SignalDirection, linkIndex: number = 0) {
+        OnJunctionStateChange?.(0, argument, direction, linkIndex);
+    }
+
+    cameraEnter(cabEnd: rw.CameraEnterCabEnd, view: rw.CameraEnterView) {
+        OnCameraEnter?.(cabEnd, view);
+    }
+
+    cameraLeave() {
+        OnCameraLeave?.();
+    }
+
+    save() {
+        OnSave?.();
+    }
+
+    resume() {
+        OnResume?.();
+    }
+
+    /**
+     * Deliver a scenario event to the script.
+     * @returns Whether the script handled the event.
+     */
+    event(name: string) {
+        return OnEvent !== undefined && OnEvent(name) === 1;
+    }
+
+    private call(fn: string, args: (string | number | boolean)[]) {
+        const separator = fn.lastIndexOf(":");
+        const target = separator === -1 ? "" : fn.substring(0, separator);
+        const name = separator === -1 ? fn : fn.substring(separator + 1);
+        const handler = this.handlers[name];
+        if (handler === undefined) {
+            throw `simulator does not implement Call("${fn}")`;
+        }
+        return handler(target, args);
+    }
+
+    private sysCall(fn: string, args: (string | number | boolean)[]) {
+        const handler = this.sysHandlers[fn];
+        if (handler === undefined) {
+            throw `simulator does not implement SysCall("${fn}")`;
+        }
+        return handler(args);
+    }
+
+    private searchTrack<T extends { positionM: number }>(
+        objects: T[],
+        direction: rw.ConsistDirection,
+        minDistanceM: number,
+        maxDistanceM: number
+    ): [distanceM: number, object: T] | undefined {
+        let best: [number, T] | undefined = undefined;
+        for (const obj of objects) {
+            const distanceM =
+                direction === rw.ConsistDirection.Forward
+                    ? obj.positionM - this.positionM
+                    : this.positionM - obj.positionM;
+            if (distanceM >= minDistanceM && distanceM <= maxDistanceM && (best === undefined || distanceM < best[0])) {
+                best = [distanceM, obj];
+            }
+        }
+        return best;
+    }
+
+    private getCurrentSpeedLimitMps() {
+        // The game's limit is the lowest limit anywhere under the consist.
+        const rearM = this.positionM - this.consistLengthM;
+        let limitMps = this.getSpeedLimitAtMps(rearM);
+        for (const post of this.speedPosts) {
+            if (post.positionM > rearM && post.positionM <= this.positionM) {
+                limitMps = Math.min(limitMps, post.speedMps);
+            }
+        }
+        return limitMps;
+    }
+
+    private getSpeedLimitAtMps(positionM: number) {
+        let last: SimSpeedPost | undefined = undefined;
+        for (const post of this.speedPosts) {
+            if (post.positionM <= positionM && (last === undefined || post.positionM > last.positionM)) {
+                last = post;
+            }
+        }
+        return last?.speedMps ?? this.defaultSpeedLimitMps;
+    }
+}
+
+function controlKey(name: string, index: number) {
+    return `${name}:${index}`;
+}
+
+function joinId(target: string, name: string) {
+    return target === "" ? name : `${target}:${name}`;
+}
+
+/**
+ * The subset of Lua's string library used by scripts.
+ */
+const luaString = {
+    find(s: string, pattern: string, init: number = 1, plain: boolean = false) {
+        const start = init < 0 ? Math.max(s.length + init, 0) : init - 1;
+        if (plain) {
+            const i = s.indexOf(pattern, start);
+            return i === -1 ? [] : [i + 1, i + pattern.length];
+        }
+        // An anchored pattern must match at the initial position.
+        const anchored = pattern[0] === "^";
+        const regex = new RegExp(luaPatternToRegExp(anchored ? pattern.substring(1) : pattern), anchored ? "y" : "g");
+        regex.lastIndex = start;
+        const match = regex.exec(s);
+        if (match === null) {
+            return [];
+        }
+        return [match.index + 1, match.index + match[0].length, ...match.slice(1)];
+    },
+    format(fmt: string, ...args: any[]) {
+        let i = 0;
+        return fmt.replace(/%([-0-9.]*)([dfsq%])/g, (_, flags: string, type: string) => {
+            if (type === "%") {
+                return "%";
+            }
+            const arg = args[i++];
+            if (type === "d") {
+                return `${Math.floor(arg)}`;
+            } else if (type === "f") {
+                const [, precision] = flags.split(".");
+                return (arg as number).toFixed(precision === undefined ? 6 : parseInt(precision));
+            } else if (type === "q") {
+                return JSON.stringify(`${arg}`);
+            } else {
+                return `${arg}`;
+            }
+        });
+    },
+    byte: (s: string, i: number = 1) => s.charCodeAt(i - 1),
+    len: (s: string) => s.length,
+    lower: (s: string) => s.toLowerCase(),
+    upper: (s: string) => s.toUpperCase(),
+    rep: (s: string, n: number) => s.repeat(n),
+    gsub(s: string, pattern: string, repl: string | ((...matches: string[]) => string)) {
+        let count = 0;
+        const anchored = pattern[0] === "^";
+        const regex = new RegExp(luaPatternToRegExp(anchored ? pattern.substring(1) : pattern), anchored ? "y" : "g");
+        const result = s.replace(regex, (match: string, ...rest: any[]) => {
+            count++;
+            const captures = rest.slice(0, rest.length - 2) as string[];
+            const args = captures.length > 0 ? captures : [match];
+            if (typeof repl === "string") {
+                return repl.replace(/%([0-9%])/g, (_, d: string) =>
+                    d === "%" ? "%" : d === "0" ? match : args[parseInt(d) - 1]
+                );
+            } else {
+                return repl(...args) ?? match;
+            }
+        });
+        return [result, count];
+    },
+    sub(s: string, i: number, j: number = -1) {
+        const from = i < 0 ? s.length + i : i - 1;
+        const to = j < 0 ? s.length + j + 1 : j;
+        return s.substring(Math.max(from, 0), to);
+    },
+};
+
+/**
+ * The subset of Lua's math library used by scripts.
+ */
+const luaMath = {
+    abs: Math.abs,
+    ceil: Math.ceil,
+    floor: Math.floor,
+    max: Math.max,
+    min: Math.min,
+    mod: (a: number, b: number) => a % b,
+    pow: Math.pow,
+    random: Math.random,
+    sqrt: Math.sqrt,
+    pi: Math.PI,
+    huge: Infinity,
+};
+
+const luaClasses: { [c: string]: string } = {
+    a: "A-Za-z",
+    c: "\\x00-\\x1f\\x7f",
+    d: "0-9",
+    l: "a-z",
+    p: "!-/:-@\\[-`{-~",
+    s: "\\s",
+    u: "A-Z",
+    w: "A-Za-z0-9",
+    x: "A-Fa-f0-9",
+};
+
+/**
+ * Translate an unanchored Lua pattern into an equivalent JavaScript regular
+ * expression. Position captures and balanced matches are not supported.
+ */
+function luaPatternToRegExp(pattern: string) {
+    let out = "";
+    let i = 0;
+    const translateClass = (c: string, inSet: boolean) => {
+        const cls = luaClasses[c.toLowerCase()];
+        if (cls === undefined) {
+            return escapeRegExp(c);
+        } else if (c === c.toLowerCase()) {
+            return inSet ? cls : `[${cls}]`;
+        } else if (inSet) {
+            throw `unsupported negated class %${c} in Lua pattern set`;
+        } else {
+            return `[^${cls}]`;
+        }
+    };
+    while (i < pattern.length) {
+        const ch = pattern[i];
+        if (ch === "$" && i === pattern.length - 1) {
+            out += "$";
+        } else if (ch === "%") {
+            out += translateClass(pattern[++i], false);
+        } else if (ch === ".") {
+            out += "[\\s\\S]";
+        } else if (ch === "[") {
+            out += "[";
+            i++;
+            if (pattern[i] === "^") {
+                out += "^";
+                i++;
+            }
+            while (i < pattern.length && pattern[i] !== "]") {
+                if (pattern[i] === "%") {
+                    out += translateClass(pattern[++i], true);
+                } else if (pattern[i] === "-") {
+                    out += "-";
+                } else {
+                    out += escapeRegExp(pattern[i]);
+                }
+                i++;
+            }
+            out += "]";
+        } else if (ch === "(" && pattern[i + 1] === ")") {
+            throw "unsupported position capture in Lua pattern";
+        } else if (ch === "(" || ch === ")" || ch === "*" || ch === "+" || ch === "?") {
+            out += ch;
+        } else if (ch === "-") {
+            out += "*?";
+        } else {
+            out += escapeRegExp(ch);
+        }
+        i++;
+    }
+    return out;
+}
+
+function escapeRegExp(s: string) {
+    return s.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+}
@@ -0,0 +1,122 @@
+import * as frp from "../lib/frp";
+import { FrpSource } from "../lib/frp-entity";
+import * as tracker from "../lib/tracker";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+/**
+ * Feed readings of a single object to a tracker and return its indices and
+ * events.
+ */
+function createTracker(reset: frp.Behavior<boolean> = false) {
+    const readings = new FrpSource<tracker.Reading<string>>();
+    const index$ = frp.compose(
+        readings.createStream(),
+        tracker.indexObjectsSensedByDistance<string>(tracker.defaultParameters, reset),
+        frp.hub()
+    );
+    const indices: Map<number, tracker.Sensed<string>>[] = [];
+    const events: tracker.TrackerEvent<string>[] = [];
+    index$(index => indices.push(index));
+    frp.compose(index$, tracker.mapTrackerEvents<string>())(event => events.push(event));
+    return { readings, indices, events };
+}
+
+test("keep the same ID for an object as it approaches", () => {
+    const { readings, indices } = createTracker();
+    readings.call([0, [[100, "signal"]]]);
+    readings.call([10, [[90, "signal"]]]);
+    readings.call([10, [[80, "signal"]]]);
+    expect(indices[indices.length - 1]).toStrictEqual(new Map([[0, [80, "signal"]]]));
+});
+
+test("tell apart two objects sensed at the same time", () => {
+    const { readings, indices } = createTracker();
+    readings.call([
+        0,
+        [
+            [100, "a"],
+            [200, "b"],
+        ],
+    ]);
+    readings.call([
+        10,
+        [
+            [90, "a"],
+            [190, "b"],
+        ],
+    ]);
+    expect(indices[indices.length - 1]).toStrictEqual(
+        new Map([
+            [0, [90, "a"]],
+            [1, [190, "b"]],
+        ])
+    );
+});
+
+test("report when an object enters, is passed, and leaves", () => {
+    const { readings, events } = createTracker();
+    readings.call([0, [[10, "post"]]]);
+    // The object disappears in the passing zone.
+    readings.call([5, []]);
+    readings.call([10, []]);
+    // Then it reappears behind the rail vehicle.
+    readings.call([10, [[-15, "post"]]]);
+    readings.call([10, [[-25, "post"]]]);
+    readings.call([10, []]);
+    expect(events.map(({ type, id, object }) => [type, id, object])).toStrictEqual([
+        [tracker.TrackerEventType.Enter, 0, "post"],
+        [tracker.TrackerEventType.Pass, 0, "post"],
+        [tracker.TrackerEventType.Leave, 0, "post"],
+    ]);
+});
+
+test("report a pass when reversing past an object", () => {
+    const { readings, events } = createTracker();
+    readings.call([0, [[-10, "post"]]]);
+    readings.call([-20, [[10, "post"]]]);
+    expect(events.map(({ type }) => type)).toStrictEqual([
+        tracker.TrackerEventType.Enter,
+        tracker.TrackerEventType.Pass,
+    ]);
+});
+
+test("forget everything when reset", () => {
+    let reset = false;
+    const { readings, indices, events } = createTracker(() => reset);
+    readings.call([0, [[100, "signal"]]]);
+    reset = true;
+    readings.call([10, [[90, "signal"]]]);
+    reset = false;
+    readings.call([10, [[80, "signal"]]]);
+    expect(indices[1].size).toBe(0);
+    expect(events.map(({ type }) => type)).toStrictEqual([
+        tracker.TrackerEventType.Enter,
+        tracker.TrackerEventType.Leave,
+        tracker.TrackerEventType.Enter,
+    ]);
+});
+
+test.each([
+    [new Map<string, number>(), undefined],
+    [
+        new Map([
+            ["a", 1],
+            ["b", 3],
+            ["c", 2],
+        ]),
+        "b",
+    ],
+])("find the best-scoring entry of %p", (map, best) => {
+    expect(tracker.bestScoreOfMapEntries(map, (_, v) => (v > 2.5 ? v : undefined))).toBe(best);
+});
@@ -0,0 +1,105 @@
+import * as c from "../lib/constants";
+import * as traction from "../lib/traction";
+
+const model: traction.TractionModel = {
+    tractiveEffort: [
+        [
+            0,
+            [
+                [0.25, 0.5],
+                [0.5, 1],
+            ],
+        ],
+        [
+            30,
+            [
+                [0, 0],
+                [1, 1],
+            ],
+        ],
+    ],
+    fullEffortA: 1000,
+    currentLimitA: 800,
+    dynamicShare: [
+        [1, 0],
+        [4, 1],
+    ],
+    dynamicService: [0.25, 1],
+    frictionService: [0.05, 0.15],
+    frictionHold: 0.03,
+    powerJerkLimitPerS: 0.5,
+    brakeJerkLimitPerS: 0.25,
+    calibratedUnits: 12,
+};
+
+test.each([
+    [0.1, 10, 0.5],
+    [0.25, 10, 0.5],
+    [0.5, 10, 0.8],
+    [0.5, 30, 0.5],
+    [0.5, 40, 0.5],
+    [0.5, -40, 0.5],
+    [0, 10, 0],
+])("power demand %d at %d m/s sets the regulator to %d", (power, speedMps, regulator) => {
+    expect(traction.regulatorSetting(model, power, speedMps)).toBeCloseTo(regulator);
+});
+
+test.each([
+    [1, 30, 1, 0.03],
+    [0.5, 30, 0.625, 0.03],
+    [1, 2.5, 0.5, 0.075],
+    [1, 0, 0, 0.15],
+    [0.5, 0, 0, 0.1],
+])("brake demand %d at %d m/s blends dynamic %d and friction %d", (brake, speedMps, dynamic, friction) => {
+    expect(traction.dynamicBrakeSetting(model, brake, speedMps)).toBeCloseTo(dynamic);
+    expect(traction.frictionBrakeSetting(model, brake, speedMps)).toBeCloseTo(friction);
+});
+
+test("release both brakes without a demand", () => {
+    expect(traction.dynamicBrakeSetting(model, 0, 30)).toBe(0);
+    expect(traction.frictionBrakeSetting(model, 0, 30)).toBe(0);
+});
+
+test("limit the rate of change of effort", () => {
+    let accum: traction.TractionAccum = { regulator: 0, dynamicBrake: 0 };
+    const speedMps = 50 * c.mph.toMps;
+    for (let i = 0; i < 10; i++) {
+        accum = traction.step(model, accum, { power: 1, brake: 0 }, speedMps, 0.1);
+    }
+    expect(accum.regulator).toBeCloseTo(0.5);
+
+    for (let i = 0; i < 10; i++) {
+        accum = traction.step(model, accum, { power: 0, brake: 1 }, speedMps, 0.1);
+    }
+    expect(accum.regulator).toBeCloseTo(0);
+    expect(accum.dynamicBrake).toBeCloseTo(0.25);
+});
+
+test("cut power at once", () => {
+    const speedMps = 50 * c.mph.toMps;
+    const accum = traction.step(model, { regulator: 0.8, dynamicBrake: 0 }, { power: 0, brake: 0 }, speedMps, 0.1);
+    expect(accum.regulator).toBe(0);
+});
+
+test("apply full effort without a current limit", () => {
+    const unlimited = { ...model, currentLimitA: undefined };
+    expect(traction.regulatorSetting(unlimited, 1, 10)).toBe(1);
+});
+
+test("scale the dynamic brake for the length of the consist", () => {
+    const state = traction.toState(model, { regulator: 0.5, dynamicBrake: 0.6 }, { power: 0, brake: 1 }, 30, 8);
+    expect(state.dynamicBrake).toBeCloseTo(0.4);
+    expect(state.trainBrake).toBeCloseTo(0.03);
+});
+
+test("ramp up the brake effort with the dynamic brakes", () => {
+    const demand = { power: 0, brake: 1 };
+    let accum: traction.TractionAccum = { regulator: 0, dynamicBrake: 0 };
+    expect(traction.brakeEffort(model, accum, demand, 30)).toBe(0);
+    for (let i = 0; i < 20; i++) {
+        accum = traction.step(model, accum, demand, 30, 0.1);
+    }
+    expect(traction.brakeEffort(model, accum, demand, 30)).toBeCloseTo(0.5);
+    // At low speed, the friction brakes do all the work at once.
+    expect(traction.brakeEffort(model, { regulator: 0, dynamicBrake: 0 }, demand, 0)).toBe(1);
+});
@@ -0,0 +1,151 @@
+import { FrpVehicle, SensedDirection } from "../lib/frp-vehicle";
+import * as rw from "../lib/railworks";
+import * as trainline from "../lib/trainline";
+import { m3Controls, m3Script } from "./m3";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+function openChannel<T>(codec: trainline.MessageCodec<T>) {
+    let received: T[] = [];
+    const e = new FrpVehicle(() => {});
+    e.setup();
+    host.initialise();
+    const channel = new trainline.TrainlineChannel(e, codec);
+    channel.createOnReceiveStream()(value => received.push(value));
+    return [channel, received] as const;
+}
+
+test("encode and decode the train line commands", () => {
+    expect(trainline.doors.decode(trainline.doors.encode([true, false]))).toStrictEqual([true, false]);
+    expect(trainline.doors.decode("2")).toBeUndefined();
+    expect(trainline.headlights.decode(trainline.headlights.encode(2))).toBe(2);
+    expect(trainline.brakes.decode("0.25")).toBe(0.25);
+    expect(trainline.brakes.decode("full")).toBeUndefined();
+    expect(trainline.cabLight.decode(trainline.cabLight.encode(true))).toBe(true);
+    expect(trainline.pantograph.decode("x")).toBeUndefined();
+});
+
+test("swap the door sides of a unit that faces the other way", () => {
+    expect(trainline.orientDoors([true, false], SensedDirection.Forward)).toStrictEqual([true, false]);
+    expect(trainline.orientDoors([true, false], SensedDirection.None)).toStrictEqual([true, false]);
+    expect(trainline.orientDoors([true, false], SensedDirection.Backward)).toStrictEqual([false, true]);
+});
+
+test("send a command in both directions", () => {
+    host.rvNumber = "9801";
+    host.simulationTimeS = 12.5;
+    const [channel] = openChannel(trainline.pantograph);
+    channel.send(true);
+    channel.send(false);
+    expect(host.consistMessagesSent.map(([id, , dir]) => [id, dir])).toStrictEqual([
+        [trainline.pantograph.id, rw.ConsistDirection.Forward],
+        [trainline.pantograph.id, rw.ConsistDirection.Backward],
+        [trainline.pantograph.id, rw.ConsistDirection.Forward],
+        [trainline.pantograph.id, rw.ConsistDirection.Backward],
+    ]);
+    const [, first] = host.consistMessagesSent[0];
+    const [, second] = host.consistMessagesSent[2];
+    expect(first).toBe("9801:12500:0:1");
+    expect(second).toBe("9801:12500:1:0");
+});
+
+test("relay received commands down the consist", () => {
+    const [, received] = openChannel(trainline.doors);
+    host.consistMessage(trainline.doors.id, "9802:0:0:10", rw.ConsistDirection.Backward);
+    host.consistMessage(10001, "", rw.ConsistDirection.Backward);
+    expect(received).toStrictEqual([[true, false]]);
+    expect(host.consistMessagesSent).toStrictEqual([[trainline.doors.id, "9802:0:0:10", rw.ConsistDirection.Backward]]);
+});
+
+test("suppress echoes", () => {
+    const [channel, received] = openChannel(trainline.cabLight);
+    host.consistMessage(trainline.cabLight.id, "9802:0:3:1", rw.ConsistDirection.Forward);
+    host.consistMessage(trainline.cabLight.id, "9802:0:3:1", rw.ConsistDirection.Backward);
+    host.consistMessage(trainline.cabLight.id, "9802:0:2:0", rw.ConsistDirection.Backward);
+    expect(received).toStrictEqual([true]);
+
+    channel.send(false);
+    const [, own] = host.consistMessagesSent[host.consistMessagesSent.length - 1];
+    host.consistMessage(trainline.cabLight.id, own, rw.ConsistDirection.Forward);
+    expect(received).toStrictEqual([true]);
+    expect(host.consistMessagesSent.length).toBe(3);
+});
+
+test("accept the commands of a unit that has restarted", () => {
+    const [, received] = openChannel(trainline.headlights);
+    host.consistMessage(trainline.headlights.id, "9802:0:5:2", rw.ConsistDirection.Forward);
+    host.consistMessage(trainline.headlights.id, "9802:0:5:2", rw.ConsistDirection.Backward);
+    host.consistMessage(trainline.headlights.id, "9802:60000:0:1", rw.ConsistDirection.Forward);
+    expect(received).toStrictEqual([2, 1]);
+});
+
+function bootM3() {
+    host.addControls(m3Controls());
+    jest.isolateModules(() => {
+        jest.requireActual(m3Script);
+    });
+    host.initialise();
+}
+
+test("broadcast the lead M3's settings to the consist", () => {
+    host.couplings = [false, true];
+    bootM3();
+    host.run(1);
+    host.setControlValue("Cablight", 0, 1);
+    host.setControlValue("DoorsOpenCloseRight", 0, 1);
+    host.run(1);
+    const contents = (id: number) =>
+        host.consistMessagesSent
+            .filter(([sentId, , dir]) => sentId === id && dir === rw.ConsistDirection.Backward)
+            .map(([, content]) => content.substring(content.lastIndexOf(":") + 1));
+    expect(contents(trainline.cabLight.id)).toStrictEqual(["0", "1"]);
+    expect(contents(trainline.doors.id)).toStrictEqual(["00", "01"]);
+    const brakes = contents(trainline.brakes.id);
+    expect(parseFloat(brakes[brakes.length - 1])).toBe(host.getControlValue("TrainBrakeControl"));
+});
+
+test("follow the lead unit's settings in a trailing M3", () => {
+    host.isEngineWithKey = false;
+    bootM3();
+    host.run(1);
+    host.consistMessage(trainline.doors.id, "9802:0:0:10", rw.ConsistDirection.Backward);
+    host.consistMessage(trainline.cabLight.id, "9802:0:0:1", rw.ConsistDirection.Backward);
+    host.consistMessage(trainline.headlights.id, "9802:0:0:2", rw.ConsistDirection.Backward);
+    host.run(1);
+    expect(host.getControlValue("DoorsOpenCloseLeft")).toBe(1);
+    expect(host.getControlValue("DoorsOpenCloseRight")).toBe(0);
+    expect(host.getControlValue("Cablight")).toBe(1);
+    expect(host.getControlValue("Headlights")).toBe(2);
+});
+
+test("open the doors on the same side of the train in a trailing M3 that faces the other way", () => {
+    host.isEngineWithKey = false;
+    bootM3();
+    host.speedMps = -1;
+    host.run(1);
+    host.speedMps = 0;
+    host.run(1);
+    host.consistMessage(trainline.doors.id, "9802:0:0:10", rw.ConsistDirection.Backward);
+    host.run(1);
+    expect(host.getControlValue("DoorsOpenCloseLeft")).toBe(0);
+    expect(host.getControlValue("DoorsOpenCloseRight")).toBe(1);
+});
+
+test("apply the lead unit's train brake setting in a trailing M3", () => {
+    host.isEngineWithKey = false;
+    bootM3();
+    host.run(1);
+    host.consistMessage(trainline.brakes.id, "9802:0:0:0.137", rw.ConsistDirection.Backward);
+    host.run(1);
+    expect(host.getControlValue("TrainBrakeControl")).toBe(0.137);
+});
@@ -0,0 +1,177 @@
+import * as frp from "../lib/frp";
+import { FrpEngine } from "../lib/frp-engine";
+import * as traction from "../lib/traction";
+import * as wheelslip from "../lib/wheelslip";
+import { SimulatorHost } from "./simulator";
+
+let host: SimulatorHost;
+
+beforeEach(() => {
+    host = new SimulatorHost();
+    host.install();
+});
+
+afterEach(() => {
+    host.uninstall();
+});
+
+const model: wheelslip.AdhesionModel = {
+    maxTractiveEffortN: 50e3,
+    serviceDecelerationMps2: 1.2,
+    dryAdhesion: 0.3,
+    wetAdhesion: 0.1,
+    toleranceMps2: 0.5,
+    correction: 0.5,
+    recoveryS: 1,
+};
+
+const cruising: wheelslip.SlipInput = {
+    tractiveEffort: 0,
+    brake: 0,
+    massKg: 50e3,
+    gradientPct: 0,
+    speedMps: 10,
+    accelerationMps2: 0,
+    precipitation: 0,
+};
+
+test("make adhesion worse in the rain", () => {
+    expect(wheelslip.slipToleranceMps2(model, 0)).toBeCloseTo(0.5);
+    expect(wheelslip.slipToleranceMps2(model, 0.5)).toBeCloseTo(1 / 3);
+    expect(wheelslip.slipToleranceMps2(model, 1)).toBeCloseTo(1 / 6);
+});
+
+test("detect a slip when acceleration falls short of the tractive effort", () => {
+    const powering = { ...cruising, tractiveEffort: 0.8 };
+    expect(wheelslip.detect(model, { ...powering, accelerationMps2: 0.7 })).toBe(wheelslip.SlipMode.Adhering);
+    expect(wheelslip.detect(model, { ...powering, accelerationMps2: 0.1 })).toBe(wheelslip.SlipMode.Slip);
+});
+
+test("account for the gradient and the direction of travel", () => {
+    const climbing = { ...cruising, tractiveEffort: 0.8, speedMps: -10, gradientPct: -5, accelerationMps2: -0.3 };
+    expect(wheelslip.detect(model, climbing)).toBe(wheelslip.SlipMode.Adhering);
+});
+
+test("detect a slide when deceleration falls short of the brake demand", () => {
+    const braking = { ...cruising, brake: 1, accelerationMps2: -1.2 };
+    expect(wheelslip.detect(model, braking)).toBe(wheelslip.SlipMode.Adhering);
+    expect(wheelslip.detect(model, { ...braking, precipitation: 1 })).toBe(wheelslip.SlipMode.Adhering);
+    expect(wheelslip.detect(model, { ...braking, accelerationMps2: -0.4 })).toBe(wheelslip.SlipMode.Slide);
+});
+
+test("detect a smaller shortfall in heavy rain", () => {
+    const braking = { ...cruising, brake: 1, accelerationMps2: -0.9 };
+    expect(wheelslip.detect(model, braking)).toBe(wheelslip.SlipMode.Adhering);
+    expect(wheelslip.detect(model, { ...braking, precipitation: 1 })).toBe(wheelslip.SlipMode.Slide);
+});
+
+test("ignore a stopped train", () => {
+    expect(wheelslip.detect(model, { ...cruising, tractiveEffort: 1, speedMps: 0 })).toBe(wheelslip.SlipMode.Adhering);
+});
+
+test("reduce the power demand until adhesion is recovered", () => {
+    const states: wheelslip.WheelSlipState[] = [];
+    const e = new FrpEngine(() => {
+        const wheelSlip$ = wheelslip.create(e, model, 0);
+        wheelSlip$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.initialise();
+    host.speedMps = 10;
+    host.totalMassKg = 50e3;
+    host.tractiveEffort = 0.8;
+    host.run(0.5);
+    expect(states[states.length - 1]).toStrictEqual({ mode: wheelslip.SlipMode.Slip, powerScale: 0.5, brakeScale: 1 });
+
+    host.tractiveEffort = 0.4;
+    host.accelerationMps2 = 0.4;
+    host.run(0.5);
+    expect(states[states.length - 1].mode).toBe(wheelslip.SlipMode.Slip);
+    host.run(1);
+    expect(states[states.length - 1]).toStrictEqual({
+        mode: wheelslip.SlipMode.Adhering,
+        powerScale: 1,
+        brakeScale: 1,
+    });
+});
+
+/**
+ * Boot an engine with a single wheel slip protection instance under braking
+ * and return its state updates.
+ */
+function createBraking(canReduceBrake: boolean) {
+    const states: wheelslip.WheelSlipState[] = [];
+    const e = new FrpEngine(() => {
+        // Apply the full brake demand, less any correction.
+        const wheelSlip$ = wheelslip.create(e, model, () => states[states.length - 1]?.brakeScale ?? 1, canReduceBrake);
+        wheelSlip$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.initialise();
+    host.speedMps = 10;
+    host.totalMassKg = 50e3;
+    return states;
+}
+
+test("reduce the brake demand until the slide clears", () => {
+    const states = createBraking(true);
+    host.accelerationMps2 = -0.4;
+    host.run(0.5);
+    expect(states[states.length - 1]).toStrictEqual({ mode: wheelslip.SlipMode.Slide, powerScale: 1, brakeScale: 0.5 });
+
+    // The train now decelerates as hard as the reduced demand asks for.
+    const corrected = states.length;
+    host.accelerationMps2 = -0.6;
+    host.run(1.5);
+    expect(states.slice(corrected).map(({ mode }) => mode)).toContain(wheelslip.SlipMode.Adhering);
+});
+
+test("never reduce a brake application that must not be reduced", () => {
+    const states = createBraking(false);
+    host.accelerationMps2 = -0.4;
+    host.run(0.5);
+    expect(states[states.length - 1]).toStrictEqual({ mode: wheelslip.SlipMode.Slide, powerScale: 1, brakeScale: 1 });
+});
+
+test("wait for the brakes to build up before detecting a slide", () => {
+    const tractionModel: traction.TractionModel = {
+        tractiveEffort: [
+            [
+                0,
+                [
+                    [0, 0],
+                    [1, 1],
+                ],
+            ],
+        ],
+        fullEffortA: 1000,
+        dynamicShare: [[0, 1]],
+        dynamicService: [0.25, 1],
+        frictionService: [0, 0],
+        frictionHold: 0,
+        powerJerkLimitPerS: 0.5,
+        brakeJerkLimitPerS: 0.25,
+        calibratedUnits: 1,
+    };
+    const states: wheelslip.WheelSlipState[] = [];
+    const e = new FrpEngine(() => {
+        let effort = 0;
+        const traction$ = frp.compose(traction.create(e, tractionModel, { power: 0, brake: 1 }, 1), frp.hub());
+        traction$(state => {
+            effort = state.brakeEffort;
+            // The train decelerates as hard as the brakes have built up to.
+            host.accelerationMps2 = -effort * model.serviceDecelerationMps2;
+        });
+        const wheelSlip$ = wheelslip.create(e, model, () => effort);
+        wheelSlip$(state => states.push(state));
+        e.activateUpdatesEveryFrame(true);
+    });
+    e.setup();
+    host.initialise();
+    host.speedMps = 20;
+    host.totalMassKg = 50e3;
+    host.run(5);
+    expect(states.map(({ mode }) => mode)).not.toContain(wheelslip.SlipMode.Slide);
+});